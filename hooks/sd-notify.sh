@@ -3,9 +3,11 @@
 # Called by Claude Code hooks to update session state on Stream Deck.
 #
 # Binding priority:
-#   1. ITERM_SESSION_ID → sends session_id (UUID part) — resolved by plugin via daemon mapping
-#   2. SD_SLOT → sends slot directly (legacy fallback, no daemon needed)
-#   3. Neither set → exit silently
+#   1. SD_TMUX=1 and TMUX_PANE → sends slot = position of the pane's window in its tmux session
+#      (opt-in for the tmux backend: tmux inside an iTerm2 tab keeps binding to the iTerm2 tab)
+#   2. ITERM_SESSION_ID → sends session_id (UUID part) — resolved by plugin via daemon mapping
+#   3. SD_SLOT → sends slot directly (legacy fallback, no daemon needed)
+#   4. None set → exit silently
 #
 # NOTE: Projects with "disableAllHooks": true in .claude/settings.local.json
 # will NOT run this hook. Remove that setting to enable Stream Deck updates.
@@ -13,18 +15,50 @@
 set -euo pipefail
 
 SD_URL="http://127.0.0.1:51820/state"
+SD_DECISION_URL="http://127.0.0.1:51820/decision"
+# Must match MAX_SLOT_COUNT in src/types.ts
+MAX_SLOT_COUNT=32
+# API token written by the plugin (or the installer) — without it every request is rejected
+TOKEN_FILE="$HOME/.cache/claude-status/token"
+SD_TOKEN=$(cat "$TOKEN_FILE" 2>/dev/null || true)
+# Plugin answers "ask" after this long; curl gives it a few extra seconds.
+# Must stay below the hook timeout set by the installer (60s).
+DECISION_TIMEOUT_MS=55000
 INPUT=$(cat)
+# Hook start time (epoch ms), sent as ts: an update that arrives late (PreToolUse runs async) is rejected
+# as out of order instead of overwriting a newer state such as a permission prompt. BSD date has no %N.
+HOOK_TS=$(perl -MTime::HiRes=time -e 'printf("%.0f", time * 1000)' 2>/dev/null || true)
 # Event name comes via stdin JSON, not environment variable
 HOOK_EVENT=$(echo "$INPUT" | jq -r '.hook_event_name // empty' 2>/dev/null || true)
 # cwd is a common field in all hook events — always send as project
 CWD=$(echo "$INPUT" | jq -r '.cwd // empty' 2>/dev/null || true)
+# Claude's own conversation context, sent with every update so the plugin can correlate slot ↔ transcript.
+# model only arrives with SessionStart (string or {id}); the plugin carries it forward.
+# agent_id is set when the event comes from a Task subagent — its activity is tracked under the slot.
+CLAUDE_CONTEXT=$(echo "$INPUT" | jq -c '{
+    claude_session_id: .session_id,
+    transcript_path: .transcript_path,
+    permission_mode: .permission_mode,
+    model: (.model | if type == "object" then .id else . end),
+    agent_id: .agent_id
+  } | with_entries(select(.value | type == "string" and length > 0))' 2>/dev/null || true)
+[[ -n "$CLAUDE_CONTEXT" ]] || CLAUDE_CONTEXT='{}'
 
 # Determine binding: session_id or slot
 SESSION_UUID=""
 SLOT_NUM=""
 FALLBACK_SLOT=""
 
-if [[ -n "${ITERM_SESSION_ID:-}" ]]; then
+if [[ "${SD_TMUX:-}" == "1" ]] && [[ -n "${TMUX_PANE:-}" ]] && command -v tmux &>/dev/null; then
+  # Slot N = Nth window of the session (matches the plugin's tmux backend)
+  TMUX_SESSION=$(tmux display-message -p -t "$TMUX_PANE" '#{session_name}' 2>/dev/null || true)
+  TMUX_WINDOW=$(tmux display-message -p -t "$TMUX_PANE" '#{window_index}' 2>/dev/null || true)
+  if [[ -n "$TMUX_SESSION" ]] && [[ -n "$TMUX_WINDOW" ]]; then
+    SLOT_NUM=$(tmux list-windows -t "$TMUX_SESSION" -F '#{window_index}' 2>/dev/null \
+      | sort -n | grep -nx "$TMUX_WINDOW" | cut -d: -f1 || true)
+  fi
+  [[ -n "$SLOT_NUM" ]] || exit 0
+elif [[ -n "${ITERM_SESSION_ID:-}" ]]; then
   # Extract UUID portion after the colon (e.g. "w0t0p0:UUID" → "UUID")
   SESSION_UUID="${ITERM_SESSION_ID##*:}"
   # Extract tab index from prefix as fallback slot (e.g. "w0t2p0:UUID" → 3)
@@ -46,16 +80,21 @@ build_payload() {
   if [[ -n "$SESSION_UUID" ]]; then
     payload=$(jq -n --arg sid "$SESSION_UUID" --arg state "$state" '{session_id: $sid, state: $state}')
     # Add fallback_slot derived from tab index in ITERM_SESSION_ID
-    if [[ -n "$FALLBACK_SLOT" ]] && [[ "$FALLBACK_SLOT" -ge 1 ]] && [[ "$FALLBACK_SLOT" -le 8 ]]; then
+    # (protocol limit; the plugin ignores slots beyond its configured slot count)
+    if [[ -n "$FALLBACK_SLOT" ]] && [[ "$FALLBACK_SLOT" -ge 1 ]] && [[ "$FALLBACK_SLOT" -le "$MAX_SLOT_COUNT" ]]; then
       payload=$(echo "$payload" | jq --argjson fs "$FALLBACK_SLOT" '. + {fallback_slot: $fs}')
     fi
   else
     payload=$(jq -n --argjson slot "${SLOT_NUM}" --arg state "$state" '{slot: $slot, state: $state}')
   fi
 
+  if [[ "$HOOK_TS" =~ ^[0-9]+$ ]]; then
+    payload=$(echo "$payload" | jq --argjson ts "$HOOK_TS" '. + {ts: $ts}')
+  fi
   if [[ -n "$CWD" ]]; then
     payload=$(echo "$payload" | jq --arg v "$CWD" '. + {project: $v}')
   fi
+  payload=$(echo "$payload" | jq --argjson c "$CLAUDE_CONTEXT" '. + $c')
 
   # Add optional fields
   while [[ $# -gt 0 ]]; do
@@ -70,6 +109,12 @@ build_payload() {
   echo "$payload"
 }
 
+# First line of an error message (string or {message}), capped for the deck
+error_message() {
+  echo "$INPUT" | jq -r "($1) | if type == \"object\" then (.message // tostring) else . end // empty" 2>/dev/null \
+    | head -n 1 | head -c 200 || true
+}
+
 case "$HOOK_EVENT" in
   SessionStart)
     payload=$(build_payload "idle")
@@ -82,12 +127,64 @@ case "$HOOK_EVENT" in
 
   PreToolUse)
     tool=$(echo "$INPUT" | jq -r '.tool_name // empty' 2>/dev/null || true)
-    payload=$(build_payload "thinking" "detail" "$tool")
+    payload=$(build_payload "thinking" "tool" "$tool")
+    # The plugin summarizes the input into detail ("Bash: npm test") and redacts secrets.
+    # Only the fields it summarizes are sent — never file contents.
+    tool_input=$(echo "$INPUT" | jq -c '.tool_input // {} | with_entries(
+        select((.key | IN("command", "file_path", "notebook_path", "path", "url", "pattern", "query", "description"))
+          and (.value | type == "string"))
+        | .value |= .[:500])' 2>/dev/null || true)
+    if [[ -n "$tool_input" ]]; then
+      payload=$(echo "$payload" | jq --argjson i "$tool_input" '. + {tool_input: $i}')
+    fi
+    # A Task call from the main thread starts a subagent — tracked by its tool_use_id until SubagentStop
+    if [[ "$tool" == "Task" || "$tool" == "Agent" ]] && [[ -z "$(echo "$INPUT" | jq -r '.agent_id // empty' 2>/dev/null)" ]]; then
+      subagent=$(echo "$INPUT" | jq -c '{event: "start"} + ({id: .tool_use_id, description: (.tool_input.description // null)}
+        | with_entries(select(.value | type == "string" and length > 0)))' 2>/dev/null || true)
+      if [[ -n "$subagent" ]]; then
+        payload=$(echo "$payload" | jq --argjson s "$subagent" '. + {subagent: $s}')
+      fi
+    fi
+    # TodoWrite carries the whole task list — forwarded for the progress bar (plugin limits: 100 items, 500 chars)
+    if [[ "$tool" == "TodoWrite" ]]; then
+      todos=$(echo "$INPUT" | jq -c '[.tool_input.todos // [] | .[:100][]
+        | {content: (.content // "" | tostring | .[:500]), status: .status}
+          + (if .activeForm then {activeForm: (.activeForm | tostring | .[:500])} else {} end)]' 2>/dev/null || true)
+      if [[ -n "$todos" ]]; then
+        payload=$(echo "$payload" | jq --argjson t "$todos" '. + {todos: $t}')
+      fi
+    fi
+    ;;
+
+  PostToolUse)
+    # Only failed tool calls are reported — success is followed by the next PreToolUse / Stop anyway
+    failed=$(echo "$INPUT" | jq -r 'if (.tool_response | type) == "object" and ((.tool_response.is_error // false) == true or (.tool_response.error // null) != null) then "1" else empty end' 2>/dev/null || true)
+    [[ -n "$failed" ]] || exit 0
+    tool=$(echo "$INPUT" | jq -r '.tool_name // empty' 2>/dev/null || true)
+    message=$(error_message '.tool_response.error // .tool_response.stderr // "failed"')
+    # Claude usually recovers from a failed tool call — the next activity replaces the error
+    payload=$(build_payload "error" "detail" "${tool:+$tool: }$message" | jq '. + {recoverable: true}')
+    ;;
+
+  PostToolUseFailure)
+    tool=$(echo "$INPUT" | jq -r '.tool_name // empty' 2>/dev/null || true)
+    message=$(error_message '.error // "failed"')
+    payload=$(build_payload "error" "detail" "${tool:+$tool: }$message" | jq '. + {recoverable: true}')
+    ;;
+
+  StopFailure)
+    # Turn ended by an API error (rate limit, overloaded, auth…)
+    message=$(error_message '.error // .message // "API error"')
+    payload=$(build_payload "error" "detail" "$message")
     ;;
 
   Notification)
     ntype=$(echo "$INPUT" | jq -r '.notification_type // .type // empty' 2>/dev/null || true)
     case "$ntype" in
+      *error*)
+        message=$(error_message '.message // "API error"')
+        payload=$(build_payload "error" "detail" "$message")
+        ;;
       permission_prompt)
         payload=$(build_payload "permission")
         ;;
@@ -100,6 +197,44 @@ case "$HOOK_EVENT" in
     esac
     ;;
 
+  PermissionRequest)
+    # Synchronous hook: block until the deck answers, then print the decision.
+    # Timeout / plugin not running / "ask" → print nothing so Claude shows its normal prompt.
+    tool=$(echo "$INPUT" | jq -r '.tool_name // empty' 2>/dev/null || true)
+    command=$(echo "$INPUT" | jq -r '.tool_input.command // .tool_input.file_path // .tool_input.url // empty' 2>/dev/null | head -c 200 || true)
+    payload=$(build_payload "permission" "tool" "$tool" "command" "$command")
+    payload=$(echo "$payload" | jq --argjson t "$DECISION_TIMEOUT_MS" '. + {timeout_ms: $t}')
+    response=$(curl --max-time 58 --silent \
+      -X POST \
+      -H "Content-Type: application/json" \
+      -H "Authorization: Bearer $SD_TOKEN" \
+      -d "$payload" \
+      "$SD_DECISION_URL" 2>/dev/null || true)
+    decision=$(echo "$response" | jq -r '.decision // empty' 2>/dev/null || true)
+    case "$decision" in
+      allow)
+        jq -n '{hookSpecificOutput: {hookEventName: "PermissionRequest", decision: {behavior: "allow"}}}'
+        ;;
+      deny)
+        jq -n '{hookSpecificOutput: {hookEventName: "PermissionRequest", decision: {behavior: "deny", message: "Denied from Stream Deck"}}}'
+        ;;
+    esac
+    exit 0
+    ;;
+
+  SubagentStart)
+    # agent_id (from CLAUDE_CONTEXT) binds to the Task-started entry; agent_type as a fallback description
+    agent_type=$(echo "$INPUT" | jq -r '.agent_type // empty' 2>/dev/null || true)
+    payload=$(build_payload "thinking")
+    payload=$(echo "$payload" | jq --arg d "$agent_type" '. + {subagent: ({event: "start"} + (if $d != "" then {description: $d} else {} end))}')
+    ;;
+
+  SubagentStop)
+    # Only the subagent ends — the plugin keeps the slot's state and removes one agent
+    payload=$(build_payload "thinking")
+    payload=$(echo "$payload" | jq '. + {subagent: {event: "stop"}}')
+    ;;
+
   PreCompact)
     payload=$(build_payload "compacting")
     ;;
@@ -109,6 +244,7 @@ case "$HOOK_EVENT" in
     ;;
 
   SessionEnd)
+    # The plugin turns this into "error" if the session was still thinking / waiting (died mid-run)
     payload=$(build_payload "offline")
     ;;
 
@@ -121,6 +257,7 @@ esac
 curl --max-time 2 --silent --show-error \
   -X POST \
   -H "Content-Type: application/json" \
+  -H "Authorization: Bearer $SD_TOKEN" \
   -d "$payload" \
   "$SD_URL" >/dev/null 2>&1 || true
 
@@ -2,8 +2,9 @@
 """
 iTerm2 Python API daemon for Claude Status Stream Deck plugin.
 
-Monitors tab layout changes and sends session→slot mapping to the plugin's
-HTTP server. Install as an AutoLaunch script in iTerm2.
+Monitors tab layout changes and sends the location of every session to the
+plugin's HTTP server: a full sync on startup and every 30s, deltas (add /
+move / remove) in between. Install as an AutoLaunch script in iTerm2.
 
 Install path:
   ~/Library/Application Support/iTerm2/Scripts/AutoLaunch/claude-status.py
@@ -17,10 +18,31 @@ import os
 import signal
 import atexit
 import subprocess
+import time
+import uuid
 
 PLUGIN_URL = "http://127.0.0.1:51820/sessions"
-MAX_SLOTS = 8
+# Protocol limit (MAX_SLOT_COUNT in src/types.ts). The plugin ignores slots
+# beyond its configured slot count, so always send every tab up to this
+# (counted across all windows).
+MAX_SLOTS = 32
 PID_FILE = os.path.join(os.path.expanduser("~"), ".cache", "claude-status", "daemon.pid")
+TOKEN_FILE = os.path.join(os.path.expanduser("~"), ".cache", "claude-status", "token")
+HEARTBEAT_SECONDS = 30
+
+# Versioned protocol: the plugin orders daemon instances by start time (ignoring
+# a dying predecessor) and messages by seq (asking for a full sync on a gap).
+INSTANCE = uuid.uuid4().hex
+STARTED = int(time.time() * 1000)
+
+
+def read_token():
+    """API token written by the plugin/installer. Re-read on every send: the plugin may create it after we start."""
+    try:
+        with open(TOKEN_FILE, "r") as f:
+            return f.read().strip()
+    except OSError:
+        return ""
 
 
 def _is_claude_status_daemon(pid):
@@ -121,38 +143,86 @@ def _cleanup_pid():
 acquire_singleton()
 
 
-async def send_mapping(app):
-    """Build session UUID → slot mapping from current window tabs and POST it."""
-    mapping = {}
-    window = app.current_window
-    if window:
-        for i, tab in enumerate(window.tabs):
-            slot = i + 1
-            if slot > MAX_SLOTS:
-                break
-            # Map ALL sessions in the tab (handles split panes)
-            for session in tab.sessions:
-                mapping[session.session_id] = slot
-
-    try:
-        data = json.dumps(mapping).encode()
-        req = urllib.request.Request(
-            PLUGIN_URL,
-            data=data,
-            headers={"Content-Type": "application/json"},
-            method="POST",
-        )
-        urllib.request.urlopen(req, timeout=2)
-    except Exception:
-        # Plugin may not be running — silently ignore
-        pass
+class MappingSender:
+    """Sends full syncs and deltas against the last mapping sent, one message at a time."""
+
+    def __init__(self, app):
+        self.app = app
+        self.seq = 0
+        self.last = None  # mapping in the last message sent (None: next one is a full sync)
+        self.lock = asyncio.Lock()
+
+    async def collect(self):
+        """
+        Session UUID → location across all windows. The plugin assigns slots
+        (windows in first-seen order, tabs in order), so sessions in a second
+        window keep their slots when focus changes windows.
+        """
+        mapping = {}
+        tabs_sent = 0
+        for w, window in enumerate(self.app.terminal_windows):
+            for t, tab in enumerate(window.tabs):
+                if tabs_sent >= MAX_SLOTS:
+                    break
+                tabs_sent += 1
+                try:
+                    title = await tab.async_get_variable("title") or ""
+                except Exception:
+                    title = ""
+                # Map ALL sessions in the tab (handles split panes)
+                for p, session in enumerate(tab.sessions):
+                    mapping[session.session_id] = {
+                        "window_id": window.window_id,
+                        "tab_index": t,
+                        "tab_title": title,
+                        "pane_id": f"w{w}t{t}p{p}",
+                    }
+        return mapping
+
+    async def send(self, full=False):
+        async with self.lock:
+            mapping = await self.collect()
+            if full or self.last is None:
+                outcome = self._post({"type": "full", "sessions": mapping})
+            else:
+                add = {k: v for k, v in mapping.items() if k not in self.last}
+                move = {k: v for k, v in mapping.items() if k in self.last and self.last[k] != v}
+                remove = [k for k in self.last if k not in mapping]
+                if not (add or move or remove):
+                    return
+                outcome = self._post({"type": "delta", "add": add, "move": move, "remove": remove})
+            self.last = mapping
+            # Plugin restarted or missed a message — resend everything
+            if outcome == "resync":
+                self._post({"type": "full", "sessions": mapping})
+
+    def _post(self, message):
+        """POST one message; returns the plugin's outcome, or None if it isn't reachable."""
+        self.seq += 1
+        body = {"instance": INSTANCE, "started": STARTED, "seq": self.seq, **message}
+        try:
+            req = urllib.request.Request(
+                PLUGIN_URL,
+                data=json.dumps(body).encode(),
+                headers={
+                    "Content-Type": "application/json",
+                    "Authorization": f"Bearer {read_token()}",
+                },
+                method="POST",
+            )
+            with urllib.request.urlopen(req, timeout=2) as res:
+                return json.loads(res.read()).get("outcome")
+        except Exception:
+            # Plugin may not be running — silently ignore (the next delta finds the gap)
+            return None
 
 
 async def monitor(connection):
     app = await iterm2.async_get_app(connection)
+    sender = MappingSender(app)
 
-    # Send initial mapping on startup
-    await send_mapping(app)
+    # Full sync on startup
+    await sender.send(full=True)
 
     async with iterm2.LayoutChangeMonitor(connection) as layout_mon:
         async with iterm2.SessionTerminationMonitor(connection) as term_mon:
@@ -160,20 +230,20 @@ async def monitor(connection):
             async def layout_loop():
                 while True:
                     await layout_mon.async_get()
-                    await send_mapping(app)
+                    await sender.send()
 
             async def term_loop():
                 while True:
                     await term_mon.async_get()
                     # Small delay to let iTerm2 finalize tab removal
                     await asyncio.sleep(0.1)
-                    await send_mapping(app)
+                    await sender.send()
 
             async def heartbeat_loop():
-                """Re-send mapping periodically so late-starting plugin gets it."""
+                """Full sync periodically: a late-starting plugin gets it, and the plugin sees the daemon is alive."""
                 while True:
-                    await asyncio.sleep(30)
-                    await send_mapping(app)
+                    await asyncio.sleep(HEARTBEAT_SECONDS)
+                    await sender.send(full=True)
 
             await asyncio.gather(layout_loop(), term_loop(), heartbeat_loop())
 
@@ -52,24 +52,47 @@ jq --arg cmd "$HOOK_CMD" '
     {"hooks": [{"type": "command", "command": $cmd, "async": true}]};
   def is_ours:
     has("hooks") and (.hooks | any(.command == $cmd));
-  def ensure_hook($event):
+  # PermissionRequest blocks on the deck for a decision — must be synchronous
+  def our_sync_entry:
+    {"hooks": [{"type": "command", "command": $cmd, "timeout": 60}]};
+  def ensure_entry($event; $entry):
     .hooks[$event] = (
       (.hooks[$event] // [])
       | [.[] | select(is_ours | not)]
-      | . + [our_entry]
+      | . + [$entry]
     );
+  def ensure_hook($event): ensure_entry($event; our_entry);
   ensure_hook("SessionStart")
   | ensure_hook("UserPromptSubmit")
   | ensure_hook("PreToolUse")
+  | ensure_hook("PostToolUse")
+  | ensure_hook("PostToolUseFailure")
   | ensure_hook("Notification")
+  | ensure_entry("PermissionRequest"; our_sync_entry)
   | ensure_hook("PreCompact")
   | ensure_hook("Stop")
+  | ensure_hook("StopFailure")
+  | ensure_hook("SubagentStart")
+  | ensure_hook("SubagentStop")
   | ensure_hook("SessionEnd")
 ' "$SETTINGS" > "$TMP" && mv "$TMP" "$SETTINGS"
-green "   → $SETTINGS (7 hook events)"
+green "   → $SETTINGS (13 hook events)"
 
-# --- 3. iTerm2 Python daemon ---
-echo "3) Installing iTerm2 Python daemon..."
+# --- 3. API token ---
+# The plugin creates this on first launch too; creating it here lets hooks and
+# the daemon authenticate before the plugin has ever run. Existing tokens are kept.
+echo "3) Ensuring API token..."
+TOKEN_FILE="$HOME/.cache/claude-status/token"
+mkdir -p "$(dirname "$TOKEN_FILE")"
+chmod 700 "$(dirname "$TOKEN_FILE")"
+if [[ ! -s "$TOKEN_FILE" ]]; then
+  (umask 077 && od -An -tx1 -N32 /dev/urandom | tr -d ' \n' > "$TOKEN_FILE")
+fi
+chmod 600 "$TOKEN_FILE"
+green "   → $TOKEN_FILE"
+
+# --- 4. iTerm2 Python daemon ---
+echo "4) Installing iTerm2 Python daemon..."
 mkdir -p "$(dirname "$DAEMON_DST")"
 cp "$DAEMON_SRC" "$DAEMON_DST"
 green "   → $DAEMON_DST"
@@ -0,0 +1,50 @@
+// Single shared frame timer for animated indicators (spinner, pulse, blinking border).
+// Runs only while some visible context shows an animated state; separate from the 1s elapsed-time ticker.
+
+export type Animated = {
+  // True while any visible context of this action needs frames
+  active: () => boolean;
+  draw: (frame: number) => void;
+};
+
+export const FRAME_MS = 250;
+
+const animated = new Set<Animated>();
+let timer: ReturnType<typeof setInterval> | undefined;
+let frame = 0;
+
+/** Current animation frame — actions read it when rendering outside the timer (store updates, appear). */
+export const animationFrame = (): number => frame;
+
+const anyActive = (): boolean => [...animated].some((a) => a.active());
+
+const step = (): void => {
+  frame = (frame + 1) % 1_000_000;
+  let running = false;
+  for (const a of animated) {
+    if (!a.active()) continue;
+    running = true;
+    a.draw(frame);
+  }
+  if (!running) stopAnimation();
+};
+
+export const registerAnimation = (a: Animated): void => {
+  animated.add(a);
+};
+
+/** Start or stop the timer to match what is visible (call on store updates, appear/disappear, paging). */
+export const syncAnimation = (): void => {
+  if (!anyActive()) {
+    stopAnimation();
+    return;
+  }
+  if (timer !== undefined) return;
+  timer = setInterval(step, FRAME_MS);
+};
+
+export const stopAnimation = (): void => {
+  if (timer === undefined) return;
+  clearInterval(timer);
+  timer = undefined;
+};
@@ -0,0 +1,77 @@
+import streamDeck, {
+  action,
+  KeyDownEvent,
+  SingletonAction,
+  WillAppearEvent,
+  WillDisappearEvent,
+} from "@elgato/streamdeck";
+import { terminal } from "../terminal";
+import { stateColor } from "../theme";
+import type { SessionStore } from "../state";
+import { summarizeAttention } from "../attention";
+import { renderOverviewSvg, svgDataUrl } from "../svg";
+
+const logger = streamDeck.logger.createScope("Overview");
+
+// Visible overview keys (action contexts)
+const contexts = new Set<string>();
+
+let storeRef: SessionStore | undefined;
+
+const render = async (actionObj: { setImage: (image: string) => Promise<void>; setTitle: (title: string) => Promise<void> }): Promise<void> => {
+  if (!storeRef) return;
+  const summary = summarizeAttention(storeRef.getAll());
+  const image = renderOverviewSvg({
+    background: stateColor(summary.urgent),
+    cells: [
+      { glyph: "lock", count: summary.permission },
+      { glyph: "cross", count: summary.error },
+      { glyph: "check", count: summary.done },
+      { glyph: "spinner", count: summary.thinking },
+    ],
+  });
+  try {
+    await actionObj.setImage(svgDataUrl(image));
+    await actionObj.setTitle("");
+  } catch (e) {
+    if (e instanceof Error) logger.error(`Overview render failed: ${e.message}`);
+  }
+};
+
+/** One key summarizing every slot — for small decks (Stream Deck Mini) or as a triage button. */
+@action({ UUID: "com.keiya.claude-status.overview" })
+export class ClaudeOverview extends SingletonAction {
+  static setStore(store: SessionStore): void {
+    storeRef = store;
+  }
+
+  override async onWillAppear(ev: WillAppearEvent): Promise<void> {
+    contexts.add(ev.action.id);
+    await render(ev.action);
+  }
+
+  override onWillDisappear(ev: WillDisappearEvent): void {
+    contexts.delete(ev.action.id);
+  }
+
+  /** Jump to the slot that has waited longest for attention, acknowledging it like its own key would. */
+  override async onKeyDown(): Promise<void> {
+    if (!storeRef) return;
+    const { next } = summarizeAttention(storeRef.getAll());
+    if (next === undefined) {
+      logger.info("Overview pressed: nothing needs attention");
+      return;
+    }
+    const seen = storeRef.acknowledge(next);
+    logger.info(`Overview pressed: slot ${next}${seen ? ` acknowledged (${seen})` : ""}`);
+    await terminal().focus(next);
+  }
+
+  /** Redraw every overview key — after any slot update, slot count or theme change. */
+  static refreshAll(): void {
+    for (const context of contexts) {
+      const actionObj = streamDeck.actions.getActionById(context);
+      if (actionObj) void render(actionObj);
+    }
+  }
+}
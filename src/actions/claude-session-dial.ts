@@ -2,6 +2,7 @@ import streamDeck, {
   action,
   DialDownEvent,
   DialRotateEvent,
+  DialUpEvent,
   SingletonAction,
   WillAppearEvent,
   WillDisappearEvent,
@@ -9,9 +10,20 @@ import streamDeck, {
 } from "@elgato/streamdeck";
 import type { FeedbackPayload } from "@elgato/streamdeck";
 import type { ActionSettings, SessionInfo } from "../types";
-import { parseSlot, STATE_COLORS, STATE_LABELS, MIN_SLOT, MAX_SLOT } from "../types";
-import { switchToTab } from "../iterm";
+import { parseSlot, STATE_LABELS, MIN_SLOT, DEFAULT_SLOT_COUNT } from "../types";
+import { terminal } from "../terminal";
+import { stateColor } from "../theme";
 import type { SessionStore } from "../state";
+import type { DecisionBroker, DecisionTarget } from "../decisions";
+import { PressTracker, answerPending } from "../gestures";
+import { elapsedLabel } from "../elapsed";
+import { usageLabel } from "../usage";
+import { progressLabel, todoProgress } from "../todos";
+import type { Subagent } from "../subagents";
+import { agentsLabel } from "../subagents";
+import { registerTick, wakeTicker } from "../ticker";
+import { keyAnimation, isAnimated } from "../svg";
+import { animationFrame, registerAnimation, syncAnimation } from "./animation";
 
 const logger = streamDeck.logger.createScope("Dial");
 
@@ -20,8 +32,21 @@ const LAYOUT_PATH = "layouts/session-info.json";
 
 // Map action context -> currently selected slot
 const dialSelectedSlot = new Map<string, number>();
+// Map action context -> pane of a split-pane slot picked by rotation (absent: the slot's most urgent pane)
+const dialSelectedPane = new Map<string, number>();
+
+// Dials with the elapsed-time suffix turned off (showTimer: false)
+const timerHidden = new Set<string>();
+// Dials with the token/cost line turned off (showUsage: false)
+const usageHidden = new Set<string>();
+// Last elapsed label drawn per context — the ticker only redraws when it changes
+const drawnTimer = new Map<string, string | undefined>();
+
+// Push gestures while a permission decision is pending: hold = allow, double push = deny
+const presses = new PressTracker();
 
 let storeRef: SessionStore | undefined;
+let decisionsRef: DecisionBroker | undefined;
 
 const projectTail2 = (project: string | undefined): string => {
   if (!project) return "";
@@ -53,12 +78,44 @@ const splitPrompt = (prompt: string | undefined): [string, string] => {
   return [ellipsis(line1, maxLine), ellipsis(line2, maxLine)];
 };
 
+const slotCount = (): number => storeRef?.slotCount ?? DEFAULT_SLOT_COUNT;
+
+// Rotation pages through every configured slot, including banks beyond 8
 const wrapSlot = (n: number): number => {
-  if (n < MIN_SLOT) return MAX_SLOT;
-  if (n > MAX_SLOT) return MIN_SLOT;
+  const max = slotCount();
+  if (n < MIN_SLOT) return max;
+  if (n > max) return MIN_SLOT;
   return n;
 };
 
+const paneCount = (slot: number): number => storeRef?.getPanes(slot).length ?? 0;
+
+// Rotation steps through the panes of a split-pane slot before moving on:
+// 3 (most urgent pane) → 3.1 → 3.2 → 4, and back the same way
+const step = (slot: number, pane: number | undefined, direction: 1 | -1): [number, number | undefined] => {
+  if (direction > 0) {
+    const next = (pane ?? -1) + 1;
+    return paneCount(slot) > 1 && next < paneCount(slot) ? [slot, next] : [wrapSlot(slot + 1), undefined];
+  }
+  if (pane !== undefined) return [slot, pane > 0 ? pane - 1 : undefined];
+  const previous = wrapSlot(slot - 1);
+  return [previous, paneCount(previous) > 1 ? paneCount(previous) - 1 : undefined];
+};
+
+// What a dial shows: the pane picked by rotation, labeled "3.2", else the slot's most urgent pane — and its session
+const dialView = (context: string, slot: number, shown?: SessionInfo): [string, SessionInfo, string?] => {
+  const pane = dialSelectedPane.get(context);
+  const panes = storeRef?.getPanes(slot) ?? [];
+  if (pane !== undefined && pane < panes.length) return [`${slot}.${pane + 1}`, panes[pane]!, storeRef?.paneSessions(slot)[pane]];
+  return [String(slot), shown ?? storeRef?.get(slot) ?? { state: "offline", ts: 0 }, storeRef?.shownSession(slot)];
+};
+
+// Whose session a press acts on: the pane on display ("3.2" after rotating to it), not just the slot
+const dialTarget = (context: string): DecisionTarget => {
+  const slot = dialSelectedSlot.get(context) ?? 1;
+  return { slot, session_id: dialView(context, slot)[2] };
+};
+
 // Generate a tiny solid-color PNG for the dial background pixmap
 const solidColorPng = (hex: string, width: number, height: number): string => {
   const r = parseInt(hex.slice(1, 3), 16);
@@ -142,108 +199,244 @@ for (let i = 0; i < 256; i++) {
   crc32Table.push(c >>> 0);
 }
 
-const buildFeedback = (slot: number, info: SessionInfo): FeedbackPayload => {
-  const color = STATE_COLORS[info.state];
-  const bgDataUrl = solidColorPng(color, 2, 1);
-  const projLabel = ellipsis(projectTail2(info.project), 28);
+// Spinner prefix for thinking/compacting headlines, one character per animation frame
+const SPINNER = ["\u25d0", "\u25d3", "\u25d1", "\u25d2"];
+
+// "◐ 3: Thinking 4m12s" — stale slots: "3: Thinking? 16m02s", running subagents: "◐ 3: Thinking (3 agents)",
+// a pane picked by rotation: "◐ 3.2: Thinking 4m12s"
+const headline = (label: string, info: SessionInfo, timer: string | undefined, frame: number = animationFrame()): string => {
+  const state = info.stale ? `${STATE_LABELS[info.state]}?` : STATE_LABELS[info.state];
+  const suffix = info.subagents?.length ? `(${agentsLabel(info.subagents.length)})` : timer;
+  const base = suffix ? `${label}: ${state} ${suffix}` : `${label}: ${state}`;
+  return isAnimated(info) && info.state !== "permission" ? `${SPINNER[frame % SPINNER.length]} ${base}` : base;
+};
+
+// Darken a #RRGGBB color (blink "off" phase)
+const dim = (hex: string): string =>
+  "#" + [1, 3, 5].map((i) => Math.round(parseInt(hex.slice(i, i + 2), 16) * 0.55).toString(16).padStart(2, "0")).join("");
+
+// The dial has no border to blink — permission alternates the background between full and dimmed color.
+// Stale and acknowledged slots stay dimmed.
+const background = (info: SessionInfo, frame: number = animationFrame()): string => {
+  const color = stateColor(info.state);
+  const dimmed = info.stale || info.seenAt !== undefined || (isAnimated(info) && keyAnimation(info.state, frame).border === false);
+  return solidColorPng(dimmed ? dim(color) : color, 2, 1);
+};
+
+// "▸ Explore API: Grep: TODO" — one running subagent and its current tool
+const agentLine = (agent: Subagent, maxLen = 28): string =>
+  ellipsis(`\u25b8 ${[agent.description ?? "agent", agent.detail].filter(Boolean).join(": ")}`, maxLen);
+
+// TodoWrite progress bar along the bottom edge — hidden (opacity 0) without a task list
+const progressBar = (info: SessionInfo): FeedbackPayload[string] => {
+  if (!info.todos?.length) return { value: 0, opacity: 0 };
+  const { done, total } = todoProgress(info.todos);
+  return { value: Math.round((done / total) * 100), opacity: 1 };
+};
+
+const buildFeedback = (context: string, slot: number, shown?: SessionInfo): FeedbackPayload => {
+  const [label, info, sessionId] = dialView(context, slot, shown);
+  const bgDataUrl = background(info);
+  // An offline slot while the iTerm2 daemon has stopped reporting says so instead of an empty line
+  const daemonDown = info.state === "offline" && storeRef?.daemonOffline() === true;
+  const projLabel = ellipsis(projectTail2(info.project) || (daemonDown ? "daemon offline" : ""), 28);
   const [promptLine1, promptLine2] = splitPrompt(info.prompt);
+  const timer = timerHidden.has(context) ? undefined : elapsedLabel(info);
+  drawnTimer.set(context, timer);
+  const progress = progressBar(info);
+
+  const pending = decisionsRef?.get({ slot, session_id: sessionId });
+  if (pending) {
+    return {
+      bg: bgDataUrl,
+      line1: headline(label, info, timer),
+      line2: projLabel,
+      line3: ellipsis(info.detail ?? pending.tool, 28),
+      line4: "Hold: allow \u00b7 2\u00d7: deny",
+      progress,
+    };
+  }
+
+  // Error message on line 3 (prompt shifts down to line 4) until acknowledged
+  if (info.state === "error" && info.detail) {
+    return {
+      bg: bgDataUrl,
+      line1: headline(label, info, timer),
+      line2: projLabel,
+      line3: ellipsis(info.detail, 28),
+      line4: promptLine1,
+      progress,
+    };
+  }
 
+  // Running subagents listed on lines 3-4, the oldest first ("+2 more" when they don't fit)
+  const agents = info.subagents ?? [];
+  if (agents.length > 0) {
+    return {
+      bg: bgDataUrl,
+      line1: headline(label, info, timer),
+      line2: projLabel,
+      line3: agentLine(agents[0]),
+      line4: agents.length > 2 ? `${agentLine(agents[1], 24)} +${agents.length - 2}` : agents.length === 2 ? agentLine(agents[1]) : promptLine1,
+      progress,
+    };
+  }
+
+  // Token/cost readout takes line 4 once the transcript has been read
+  const usage = info.usage && !usageHidden.has(context) ? usageLabel(info.usage) : undefined;
+  // The in-progress TodoWrite item replaces the prompt on line 3 ("3/7 Running tests")
+  const todos = info.todos?.length ? todoProgress(info.todos) : undefined;
+  if (todos?.current) {
+    return {
+      bg: bgDataUrl,
+      line1: headline(label, info, timer),
+      line2: projLabel,
+      line3: ellipsis(`${progressLabel(todos)} ${todos.current}`, 28),
+      line4: usage ?? promptLine1,
+      progress,
+    };
+  }
   return {
     bg: bgDataUrl,
-    line1: `${slot}: ${STATE_LABELS[info.state]}`,
+    line1: headline(label, info, timer),
     line2: projLabel,
     line3: promptLine1,
-    line4: promptLine2,
+    line4: usage ?? promptLine2,
+    progress,
   };
 };
 
+const setLineVisibility = (context: string, settings: ActionSettings): void => {
+  if (settings.showTimer === false) timerHidden.add(context);
+  else timerHidden.delete(context);
+  if (settings.showUsage === false) usageHidden.add(context);
+  else usageHidden.delete(context);
+};
+
 @action({ UUID: "com.keiya.claude-status.session-dial" })
 export class ClaudeSessionDial extends SingletonAction<ActionSettings> {
   static setStore(store: SessionStore): void {
     storeRef = store;
   }
 
+  static setDecisions(decisions: DecisionBroker): void {
+    decisionsRef = decisions;
+  }
+
   override async onWillAppear(ev: WillAppearEvent<ActionSettings>): Promise<void> {
-    const slot = parseSlot(ev.payload.settings.slot);
+    const slot = parseSlot(ev.payload.settings.slot, slotCount());
     dialSelectedSlot.set(ev.action.id, slot);
+    dialSelectedPane.delete(ev.action.id);
+    setLineVisibility(ev.action.id, ev.payload.settings);
     logger.info(`Slot ${slot}: dial appeared`);
 
     if (storeRef && ev.action.isDial()) {
       try {
         // Always re-send layout — device may have reset after sleep/reconnect
         await ev.action.setFeedbackLayout(LAYOUT_PATH);
-        const info = storeRef.get(slot);
-        await ev.action.setFeedback(buildFeedback(slot, info));
-        logger.info(`Slot ${slot}: dial rendered (${info.state})`);
+        await ev.action.setFeedback(buildFeedback(ev.action.id, slot));
+        logger.info(`Slot ${slot}: dial rendered (${storeRef.get(slot).state})`);
       } catch (e) {
         if (e instanceof Error) logger.error(`Slot ${slot}: dial render failed: ${e.message}`);
       }
     }
+    wakeTicker();
+    syncAnimation();
   }
 
   override onWillDisappear(ev: WillDisappearEvent<ActionSettings>): void {
     dialSelectedSlot.delete(ev.action.id);
+    dialSelectedPane.delete(ev.action.id);
+    timerHidden.delete(ev.action.id);
+    usageHidden.delete(ev.action.id);
+    drawnTimer.delete(ev.action.id);
+    presses.forget(ev.action.id);
+    syncAnimation();
   }
 
   override async onDidReceiveSettings(ev: DidReceiveSettingsEvent<ActionSettings>): Promise<void> {
-    const slot = parseSlot(ev.payload.settings.slot);
+    const slot = parseSlot(ev.payload.settings.slot, slotCount());
     dialSelectedSlot.set(ev.action.id, slot);
+    dialSelectedPane.delete(ev.action.id);
+    setLineVisibility(ev.action.id, ev.payload.settings);
     logger.info(`Slot ${slot}: dial settings changed`);
 
     if (storeRef && ev.action.isDial()) {
       try {
         await ev.action.setFeedbackLayout(LAYOUT_PATH);
-        const info = storeRef.get(slot);
-        await ev.action.setFeedback(buildFeedback(slot, info));
-        logger.info(`Slot ${slot}: dial rendered (${info.state})`);
+        await ev.action.setFeedback(buildFeedback(ev.action.id, slot));
+        logger.info(`Slot ${slot}: dial rendered (${storeRef.get(slot).state})`);
       } catch (e) {
         if (e instanceof Error) logger.error(`Slot ${slot}: dial render failed: ${e.message}`);
       }
     }
+    wakeTicker();
+    syncAnimation();
   }
 
   override async onDialRotate(ev: DialRotateEvent<ActionSettings>): Promise<void> {
     const currentSlot = dialSelectedSlot.get(ev.action.id) ?? 1;
     const direction = ev.payload.ticks > 0 ? 1 : -1;
-    const newSlot = wrapSlot(currentSlot + direction);
+    const [newSlot, pane] = step(currentSlot, dialSelectedPane.get(ev.action.id), direction);
     dialSelectedSlot.set(ev.action.id, newSlot);
-    logger.info(`Dial rotated: slot ${currentSlot} -> ${newSlot}`);
+    if (pane === undefined) dialSelectedPane.delete(ev.action.id);
+    else dialSelectedPane.set(ev.action.id, pane);
+    logger.info(`Dial rotated: slot ${currentSlot} -> ${newSlot}${pane === undefined ? "" : ` pane ${pane + 1}`}`);
 
     if (storeRef) {
-      const info = storeRef.get(newSlot);
       try {
-        await ev.action.setFeedback(buildFeedback(newSlot, info));
+        await ev.action.setFeedback(buildFeedback(ev.action.id, newSlot));
       } catch (e) {
         if (e instanceof Error) logger.error(`Slot ${newSlot}: dial render failed: ${e.message}`);
       }
     }
+    wakeTicker();
+    syncAnimation();
   }
 
   override async onDialDown(ev: DialDownEvent<ActionSettings>): Promise<void> {
-    const slot = dialSelectedSlot.get(ev.action.id) ?? 1;
+    const target = dialTarget(ev.action.id);
+    const { slot } = target;
     logger.info(`Slot ${slot}: dial pressed`);
 
-    // Acknowledge: reset done/idle to offline (read → unread style)
-    if (storeRef) {
-      const current = storeRef.get(slot);
-      if (current.state === "done" || current.state === "idle") {
-        storeRef.update({ slot, state: "offline" });
-        logger.info(`Slot ${slot}: acknowledged (${current.state} -> offline)`);
-      }
+    // Pending permission request of the pane on display — classify the gesture on dial up instead
+    if (decisionsRef?.get(target)) {
+      presses.down(ev.action.id);
+      return;
     }
 
-    await switchToTab(slot);
+    // Acknowledge: mark done/idle/error as seen (read → unread style) — the pane keeps its state
+    const seen = storeRef?.acknowledge(slot, Date.now(), target.session_id);
+    if (seen) logger.info(`Slot ${slot}: acknowledged (${seen})`);
+
+    await terminal().focus(slot, target.session_id);
+  }
+
+  override async onDialUp(ev: DialUpEvent<ActionSettings>): Promise<void> {
+    // Single press (switch tab) waits out the double-press window, so a deny's first tap doesn't focus
+    const gesture = await presses.settle(ev.action.id);
+    if (gesture === undefined) return;
+    const target = dialTarget(ev.action.id);
+    const { slot } = target;
+
+    // Hold = allow, double press = deny — the pane leaves permission right away
+    const answered = decisionsRef && storeRef && answerPending(gesture, target, decisionsRef, storeRef);
+    if (answered) {
+      logger.info(`Slot ${slot}: permission ${answered === "allow" ? "allowed" : "denied"} from dial`);
+      return;
+    }
+
+    await terminal().focus(slot, target.session_id);
   }
 
   static updateSlot(slot: number, info: SessionInfo): void {
     logger.info(`Slot ${slot}: dial updateSlot called, contexts=${dialSelectedSlot.size}`);
-    const feedback = buildFeedback(slot, info);
     for (const [context, s] of dialSelectedSlot) {
       if (s === slot) {
         const actionObj = streamDeck.actions.getActionById(context);
         logger.info(`Slot ${slot}: context=${context}, isDial=${actionObj?.isDial()}`);
         if (actionObj?.isDial()) {
-          void actionObj.setFeedback(feedback).then(() => {
+          void actionObj.setFeedback(buildFeedback(context, slot, info)).then(() => {
             logger.info(`Slot ${slot}: dial feedback sent`);
           }).catch((e) => {
             if (e instanceof Error) logger.error(`Slot ${slot}: dial feedback failed: ${e.message}`);
@@ -252,4 +445,67 @@ export class ClaudeSessionDial extends SingletonAction<ActionSettings> {
       }
     }
   }
+
+  /** Re-render every dial — after a slot count change. Dials past the new count wrap to slot 1. */
+  static refreshAll(): void {
+    if (!storeRef) return;
+    for (const [context, selected] of dialSelectedSlot) {
+      const slot = selected > slotCount() ? MIN_SLOT : selected;
+      if (slot !== selected) dialSelectedPane.delete(context);
+      dialSelectedSlot.set(context, slot);
+      const actionObj = streamDeck.actions.getActionById(context);
+      if (actionObj?.isDial()) {
+        void actionObj.setFeedback(buildFeedback(context, slot)).catch((e) => {
+          if (e instanceof Error) logger.error(`Slot ${slot}: dial feedback failed: ${e.message}`);
+        });
+      }
+    }
+  }
+
+  /** Ticker callback: update line 1 of dials whose elapsed label changed. Returns true while any dial shows a timer. */
+  static tick(now: number): boolean {
+    if (!storeRef) return false;
+    let ticking = false;
+    for (const [context, slot] of dialSelectedSlot) {
+      if (timerHidden.has(context)) continue;
+      const [title, info] = dialView(context, slot);
+      const label = elapsedLabel(info, now);
+      if (label !== undefined) ticking = true;
+      if (label === drawnTimer.get(context)) continue;
+      drawnTimer.set(context, label);
+      const actionObj = streamDeck.actions.getActionById(context);
+      if (actionObj?.isDial()) {
+        // Partial feedback — only the headline changes
+        void actionObj.setFeedback({ line1: headline(title, info, label) }).catch((e) => {
+          if (e instanceof Error) logger.error(`Slot ${slot}: dial tick failed: ${e.message}`);
+        });
+      }
+    }
+    return ticking;
+  }
+
+  /** Animation frame: spin the headline glyph (thinking/compacting) or blink the background (permission). */
+  static animate(frame: number): void {
+    if (!storeRef) return;
+    for (const [context, slot] of dialSelectedSlot) {
+      const [label, info] = dialView(context, slot);
+      if (!isAnimated(info)) continue;
+      const actionObj = streamDeck.actions.getActionById(context);
+      if (!actionObj?.isDial()) continue;
+      const payload: FeedbackPayload = info.state === "permission"
+        ? { bg: background(info, frame) }
+        : { line1: headline(label, info, drawnTimer.get(context), frame) };
+      void actionObj.setFeedback(payload).catch((e) => {
+        if (e instanceof Error) logger.error(`Slot ${slot}: dial animation failed: ${e.message}`);
+      });
+    }
+  }
+
+  static isAnimating(): boolean {
+    if (!storeRef) return false;
+    return [...dialSelectedSlot].some(([context, slot]) => isAnimated(dialView(context, slot)[1]));
+  }
 }
+
+registerTick((now) => ClaudeSessionDial.tick(now));
+registerAnimation({ active: () => ClaudeSessionDial.isAnimating(), draw: (frame) => ClaudeSessionDial.animate(frame) });
@@ -1,211 +1,372 @@
 import streamDeck, {
   action,
   KeyDownEvent,
+  KeyUpEvent,
   SingletonAction,
   WillAppearEvent,
   WillDisappearEvent,
   DidReceiveSettingsEvent,
+  SendToPluginEvent,
 } from "@elgato/streamdeck";
 import type { ActionSettings, SessionInfo } from "../types";
-import { parseSlot, STATE_LABELS, STATE_COLORS } from "../types";
-import { projectTail } from "../svg";
-import { switchToTab } from "../iterm";
+import { parseSlot, STATE_LABELS, DEFAULT_SLOT_COUNT, BANK_SIZE, bankCount, bankSlot } from "../types";
+import { projectTail, renderKeySvg, svgDataUrl, keyAnimation, isAnimated, STATE_GLYPHS } from "../svg";
+import { terminal } from "../terminal";
+import { stateColor } from "../theme";
 import type { SessionStore } from "../state";
+import type { DecisionBroker } from "../decisions";
+import { PressTracker, answerPending } from "../gestures";
+import { elapsedLabel } from "../elapsed";
+import { formatCost } from "../usage";
+import { progressLabel, todoProgress } from "../todos";
+import { agentsLabel } from "../subagents";
+import { registerTick, wakeTicker } from "../ticker";
+import { animationFrame, registerAnimation, syncAnimation } from "./animation";
 
 const logger = streamDeck.logger.createScope("Session");
 
-// Map action context -> slot
+// Map action context -> configured slot (before the bank offset)
 const contextSlot = new Map<string, number>();
+// Contexts configured as bank pagers (role: "bank")
+const bankContexts = new Set<string>();
+// Map action context -> project path or glob of a pinned key (role: "pinned")
+const contextPinned = new Map<string, string>();
+// Slot a pinned key last showed — redrawn when that slot changes, too (session closed or moved away)
+const pinnedSlot = new Map<string, number | undefined>();
+// Contexts with the elapsed-time line turned off (showTimer: false)
+const timerHidden = new Set<string>();
+// Contexts with the cost badge turned off (showUsage: false)
+const usageHidden = new Set<string>();
+// Last elapsed label drawn per context — the ticker only redraws when it changes
+const drawnTimer = new Map<string, string | undefined>();
+
+// Active bank (0-based), shared by all keys: bank 1 shows slots 9-16 on keys configured 1-8
+let activeBank = 0;
+
+// Press gestures while a permission decision is pending: hold = allow, double press = deny
+const presses = new PressTracker();
 
 let storeRef: SessionStore | undefined;
+let decisionsRef: DecisionBroker | undefined;
 
-// Generate a tiny 8x8 solid-color PNG data URL (no external libs needed)
-const solidColorPng = (hex: string): string => {
-  // Parse hex color
-  const r = parseInt(hex.slice(1, 3), 16);
-  const g = parseInt(hex.slice(3, 5), 16);
-  const b = parseInt(hex.slice(5, 7), 16);
-
-  // Build minimal PNG: 8x8 pixels, RGBA, uncompressed (stored blocks)
-  const width = 8;
-  const height = 8;
-
-  // IHDR data (13 bytes)
-  const ihdr = Buffer.alloc(13);
-  ihdr.writeUInt32BE(width, 0);
-  ihdr.writeUInt32BE(height, 4);
-  ihdr[8] = 8;  // bit depth
-  ihdr[9] = 2;  // color type: RGB
-  ihdr[10] = 0; // compression
-  ihdr[11] = 0; // filter
-  ihdr[12] = 0; // interlace
-
-  // Raw image data: filter byte (0) + RGB for each pixel, per row
-  const rawRow = Buffer.alloc(1 + width * 3);
-  rawRow[0] = 0; // no filter
-  for (let x = 0; x < width; x++) {
-    rawRow[1 + x * 3] = r;
-    rawRow[2 + x * 3] = g;
-    rawRow[3 + x * 3] = b;
-  }
-
-  // All rows
-  const rawData = Buffer.alloc(rawRow.length * height);
-  for (let y = 0; y < height; y++) {
-    rawRow.copy(rawData, y * rawRow.length);
-  }
-
-  // Deflate stored block (no compression):
-  // 1 byte: 0x01 (final block, stored)
-  // 2 bytes: length (little endian)
-  // 2 bytes: ~length (little endian)
-  // data
-  const dataLen = rawData.length;
-  const deflated = Buffer.alloc(5 + dataLen);
-  deflated[0] = 0x01;
-  deflated.writeUInt16LE(dataLen, 1);
-  deflated.writeUInt16LE(dataLen ^ 0xffff, 3);
-  rawData.copy(deflated, 5);
-
-  // zlib wrapper: CMF + FLG + deflated + adler32
-  const cmf = 0x78;
-  const flg = 0x01;
-  // Adler-32 of rawData
-  let a = 1;
-  let bv = 0;
-  for (let i = 0; i < rawData.length; i++) {
-    a = (a + rawData[i]!) % 65521;
-    bv = (bv + a) % 65521;
-  }
-  const adler = ((bv << 16) | a) >>> 0;
-
-  const zlibData = Buffer.alloc(2 + deflated.length + 4);
-  zlibData[0] = cmf;
-  zlibData[1] = flg;
-  deflated.copy(zlibData, 2);
-  zlibData.writeUInt32BE(adler, 2 + deflated.length);
-
-  // Build PNG chunks
-  const pngChunks: Buffer[] = [];
-
-  // PNG signature
-  pngChunks.push(Buffer.from([137, 80, 78, 71, 13, 10, 26, 10]));
-
-  const writeChunk = (type: string, data: Buffer) => {
-    const len = Buffer.alloc(4);
-    len.writeUInt32BE(data.length);
-    const typeB = Buffer.from(type, "ascii");
-    const crcInput = Buffer.concat([typeB, data]);
-    const crc = crc32(crcInput);
-    const crcB = Buffer.alloc(4);
-    crcB.writeUInt32BE(crc);
-    pngChunks.push(len, typeB, data, crcB);
-  };
-
-  writeChunk("IHDR", ihdr);
-  writeChunk("IDAT", zlibData);
-  writeChunk("IEND", Buffer.alloc(0));
-
-  const png = Buffer.concat(pngChunks);
-  return `data:image/png;base64,${png.toString("base64")}`;
-};
+const slotCount = (): number => storeRef?.slotCount ?? DEFAULT_SLOT_COUNT;
 
-// CRC-32 for PNG chunks
-const crc32Table: number[] = [];
-for (let i = 0; i < 256; i++) {
-  let c = i;
-  for (let j = 0; j < 8; j++) {
-    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
-  }
-  crc32Table.push(c >>> 0);
-}
-const crc32 = (buf: Buffer): number => {
-  let crc = 0xffffffff;
-  for (let i = 0; i < buf.length; i++) {
-    crc = (crc32Table[(crc ^ buf[i]!) & 0xff]! ^ (crc >>> 8)) >>> 0;
-  }
-  return (crc ^ 0xffffffff) >>> 0;
+// Slot currently shown by a key configured for `configured` — undefined past the last slot of a partial bank
+const effectiveSlot = (configured: number): number | undefined => bankSlot(configured, activeBank, slotCount());
+
+type KeyTarget = { slot: number; info: SessionInfo; session_id?: string };
+
+// Slot and state a key shows: its bank-offset slot, or for a pinned key the session on its project
+// wherever its tab sits (undefined while no session has the project open, or the bank has no slot for the key)
+const keyTarget = (context: string): KeyTarget | undefined => {
+  if (!storeRef) return undefined;
+  const pattern = contextPinned.get(context);
+  if (pattern !== undefined) return storeRef.findProject(pattern);
+  const configured = contextSlot.get(context);
+  if (configured === undefined) return undefined;
+  const slot = effectiveSlot(configured);
+  if (slot === undefined) return undefined;
+  return { slot, info: storeRef.get(slot), session_id: storeRef.shownSession(slot) };
 };
 
+// Session keys (slot and pinned) — bank pagers excluded
+const sessionContexts = (): string[] => [...contextSlot.keys(), ...contextPinned.keys()];
+
 const renderButton = async (
-  actionObj: { setImage: (image: string) => Promise<void>; setTitle: (title: string) => Promise<void> },
-  slot: number,
-  info: SessionInfo,
+  actionObj: { id: string; setImage: (image: string) => Promise<void> },
+  { slot, info, session_id: sessionId }: KeyTarget,
 ): Promise<void> => {
-  const color = STATE_COLORS[info.state];
-  const dataUrl = solidColorPng(color);
   const proj = projectTail(info.project, 1);
-  const title = proj ? `${slot}\n${proj}` : `${slot}\n${STATE_LABELS[info.state]}`;
+  const pending = decisionsRef?.get({ slot, session_id: sessionId });
+  const timer = timerHidden.has(actionObj.id) ? undefined : elapsedLabel(info);
+  drawnTimer.set(actionObj.id, timer);
+  const cost = info.usage && !usageHidden.has(actionObj.id) ? formatCost(info.usage.cost) : undefined;
+  const todos = info.todos?.length ? todoProgress(info.todos) : undefined;
+  // Running subagents take the timer's place: "3 agents", "2/5 3 agents"
+  const agents = info.subagents?.length ? agentsLabel(info.subagents.length) : undefined;
+  const status = [todos && progressLabel(todos), agents ?? timer ?? cost].filter(Boolean).join(" ") || undefined;
+  // Offline slot while the iTerm2 daemon has stopped reporting: "Daemon / offline" instead of "Offline"
+  const daemonDown = info.state === "offline" && storeRef?.daemonOffline() === true;
+  const dataUrl = svgDataUrl(renderKeySvg({
+    background: stateColor(info.state),
+    // Stale (watchdog): hourglass on a dimmed background, no animation. Acknowledged: dimmed.
+    glyph: info.stale ? "hourglass" : STATE_GLYPHS[info.state],
+    dimmed: info.stale || info.seenAt !== undefined,
+    slot,
+    label: pending ? pending.tool : proj || (daemonDown ? "Daemon" : STATE_LABELS[info.state]),
+    // Error message stays on the key until acknowledged. Otherwise "3/7" (TodoWrite) before the
+    // agent count, the timer, or the cost badge when no timer runs
+    detail: pending ? "allow?" : info.state === "error" ? info.detail : daemonDown ? "offline" : status,
+    progress: todos && todos.done / todos.total,
+    ...(isAnimated(info) && keyAnimation(info.state, animationFrame())),
+  }));
 
   try {
     await actionObj.setImage(dataUrl);
-    await actionObj.setTitle(title);
-    logger.info(`Slot ${slot}: rendered (${info.state})`);
   } catch (e) {
     if (e instanceof Error) logger.error(`Slot ${slot}: render failed: ${e.message}`);
   }
 };
 
+// Pinned key whose project no session has open: project name on the offline color, no slot badge
+const renderPinnedIdle = async (
+  actionObj: { setImage: (image: string) => Promise<void> },
+  pattern: string,
+): Promise<void> => {
+  try {
+    await actionObj.setImage(svgDataUrl(renderKeySvg({
+      background: stateColor("offline"),
+      glyph: "none",
+      label: projectTail(pattern, 1),
+      detail: "not open",
+    })));
+  } catch (e) {
+    if (e instanceof Error) logger.error(`Pinned key (${pattern}) render failed: ${e.message}`);
+  }
+};
+
+// Slot key past the last slot of a partial bank (12 slots, bank 2: keys 5-8): blank, no badge
+const renderUnusedKey = async (
+  actionObj: { setImage: (image: string) => Promise<void> },
+): Promise<void> => {
+  try {
+    await actionObj.setImage(svgDataUrl(renderKeySvg({ background: stateColor("offline"), glyph: "none", dimmed: true })));
+  } catch (e) {
+    if (e instanceof Error) logger.error(`Unused key render failed: ${e.message}`);
+  }
+};
+
+// Draw a session key from its target (slot key, or pinned key wherever its project is open)
+const renderKey = (actionObj: Parameters<typeof renderButton>[0]): Promise<void> => {
+  const target = keyTarget(actionObj.id);
+  const pattern = contextPinned.get(actionObj.id);
+  if (pattern !== undefined) pinnedSlot.set(actionObj.id, target?.slot);
+  if (target) return renderButton(actionObj, target);
+  return pattern !== undefined ? renderPinnedIdle(actionObj, pattern) : renderUnusedKey(actionObj);
+};
+
+const BANK_KEY_COLOR = "#424242";
+
+const renderBankKey = async (
+  actionObj: { setImage: (image: string) => Promise<void> },
+): Promise<void> => {
+  const count = slotCount();
+  const first = activeBank * BANK_SIZE + 1;
+  const last = Math.min(first + BANK_SIZE - 1, count);
+  try {
+    await actionObj.setImage(svgDataUrl(renderKeySvg({
+      background: BANK_KEY_COLOR,
+      glyph: "none",
+      slot: activeBank + 1,
+      label: `${first}-${last}`,
+      detail: `bank ${activeBank + 1}/${bankCount(count)}`,
+    })));
+  } catch (e) {
+    if (e instanceof Error) logger.error(`Bank key render failed: ${e.message}`);
+  }
+};
+
 @action({ UUID: "com.keiya.claude-status.session" })
 export class ClaudeSession extends SingletonAction<ActionSettings> {
   static setStore(store: SessionStore): void {
     storeRef = store;
   }
 
-  override async onWillAppear(ev: WillAppearEvent<ActionSettings>): Promise<void> {
-    const slot = parseSlot(ev.payload.settings.slot);
-    contextSlot.set(ev.action.id, slot);
-    logger.info(`Slot ${slot}: button appeared`);
+  static setDecisions(decisions: DecisionBroker): void {
+    decisionsRef = decisions;
+  }
 
-    if (storeRef) {
-      const info = storeRef.get(slot);
-      await renderButton(ev.action, slot, info);
-    }
+  override async onWillAppear(ev: WillAppearEvent<ActionSettings>): Promise<void> {
+    await this.bind(ev.action, ev.payload.settings, "appeared");
   }
 
   override onWillDisappear(ev: WillDisappearEvent<ActionSettings>): void {
     contextSlot.delete(ev.action.id);
+    bankContexts.delete(ev.action.id);
+    contextPinned.delete(ev.action.id);
+    pinnedSlot.delete(ev.action.id);
+    timerHidden.delete(ev.action.id);
+    usageHidden.delete(ev.action.id);
+    drawnTimer.delete(ev.action.id);
+    presses.forget(ev.action.id);
+    syncAnimation();
   }
 
   override async onDidReceiveSettings(ev: DidReceiveSettingsEvent<ActionSettings>): Promise<void> {
-    const slot = parseSlot(ev.payload.settings.slot);
-    contextSlot.set(ev.action.id, slot);
-    logger.info(`Slot ${slot}: button settings changed`);
-
-    if (storeRef) {
-      const info = storeRef.get(slot);
-      await renderButton(ev.action, slot, info);
-    }
+    await this.bind(ev.action, ev.payload.settings, "settings changed");
   }
 
   override async onKeyDown(ev: KeyDownEvent<ActionSettings>): Promise<void> {
-    const slot = parseSlot(ev.payload.settings.slot);
+    // Bank pager: advance to the next bank and redraw every key
+    if (bankContexts.has(ev.action.id)) {
+      activeBank = (activeBank + 1) % bankCount(slotCount());
+      logger.info(`Bank ${activeBank + 1} selected`);
+      ClaudeSession.refreshAll();
+      wakeTicker();
+      syncAnimation();
+      return;
+    }
+
+    const target = keyTarget(ev.action.id);
+    if (target === undefined) {
+      const pattern = contextPinned.get(ev.action.id);
+      logger.info(pattern !== undefined ? `Pinned key pressed: ${pattern} not open` : `Unused key pressed (bank ${activeBank + 1})`);
+      return;
+    }
+    const { slot, session_id: sessionId } = target;
     logger.info(`Slot ${slot}: button pressed`);
 
-    // Acknowledge: reset done/idle to offline (read → unread style)
-    if (storeRef) {
-      const current = storeRef.get(slot);
-      if (current.state === "done" || current.state === "idle") {
-        storeRef.update({ slot, state: "offline" });
-        logger.info(`Slot ${slot}: acknowledged (${current.state} -> offline)`);
-      }
+    // Pending permission request of the pane on the key — classify the gesture on key up instead
+    if (decisionsRef?.get({ slot, session_id: sessionId })) {
+      presses.down(ev.action.id);
+      return;
+    }
+
+    // Acknowledge: mark done/idle/error as seen (read → unread style) — the slot keeps its state
+    const seen = storeRef?.acknowledge(slot, Date.now(), sessionId);
+    if (seen) logger.info(`Slot ${slot}: acknowledged (${seen})`);
+
+    await terminal().focus(slot, sessionId);
+  }
+
+  override async onKeyUp(ev: KeyUpEvent<ActionSettings>): Promise<void> {
+    // Single press (switch tab) waits out the double-press window, so a deny's first tap doesn't focus
+    const gesture = await presses.settle(ev.action.id);
+    const target = keyTarget(ev.action.id);
+    if (gesture === undefined || target === undefined) return;
+    const { slot, session_id: sessionId } = target;
+
+    // Hold = allow, double press = deny — the pane leaves permission right away
+    const answered = decisionsRef && storeRef && answerPending(gesture, { slot, session_id: sessionId }, decisionsRef, storeRef);
+    if (answered) {
+      logger.info(`Slot ${slot}: permission ${answered === "allow" ? "allowed" : "denied"} from deck`);
+      return;
+    }
+
+    await terminal().focus(slot, sessionId);
+  }
+
+  /** Property Inspector datasource (sdpi-select `datasource="getRecentProjects"`) for the pinned-project field. */
+  override async onSendToPlugin(ev: SendToPluginEvent<{ event: string }, ActionSettings>): Promise<void> {
+    if (ev.payload.event !== "getRecentProjects" || !storeRef) return;
+    await streamDeck.ui.sendToPropertyInspector({
+      event: "getRecentProjects",
+      items: storeRef.recentProjects().map((project) => ({ label: projectTail(project, 2), value: project })),
+    });
+  }
+
+  private async bind(
+    actionObj: WillAppearEvent<ActionSettings>["action"],
+    settings: ActionSettings,
+    reason: string,
+  ): Promise<void> {
+    // Every line is drawn into the image — clear the title once here, not on each redraw (animation frames)
+    await actionObj.setTitle("");
+    if (settings.role === "bank") {
+      contextSlot.delete(actionObj.id);
+      contextPinned.delete(actionObj.id);
+      bankContexts.add(actionObj.id);
+      logger.info(`Bank key ${reason}`);
+      await renderBankKey(actionObj);
+      syncAnimation();
+      return;
+    }
+
+    bankContexts.delete(actionObj.id);
+    if (settings.role === "pinned" && settings.project?.trim()) {
+      contextSlot.delete(actionObj.id);
+      contextPinned.set(actionObj.id, settings.project.trim());
+    } else {
+      contextPinned.delete(actionObj.id);
+      pinnedSlot.delete(actionObj.id);
+      contextSlot.set(actionObj.id, parseSlot(settings.slot, slotCount()));
     }
+    if (settings.showTimer === false) timerHidden.add(actionObj.id);
+    else timerHidden.delete(actionObj.id);
+    if (settings.showUsage === false) usageHidden.add(actionObj.id);
+    else usageHidden.delete(actionObj.id);
+    const pattern = contextPinned.get(actionObj.id);
+    logger.info(pattern !== undefined ? `Pinned key (${pattern}) ${reason}` : `Slot ${keyTarget(actionObj.id)?.slot}: button ${reason}`);
 
-    await switchToTab(slot);
+    if (storeRef) await renderKey(actionObj);
+    wakeTicker();
+    syncAnimation();
   }
 
   static updateSlot(slot: number, info: SessionInfo): void {
     logger.info(`Slot ${slot}: updateSlot called, contexts=${contextSlot.size}`);
-    for (const [context, s] of contextSlot) {
-      if (s === slot) {
+    for (const [context, configured] of contextSlot) {
+      if (effectiveSlot(configured) === slot) {
         logger.info(`Slot ${slot}: found context ${context}, rendering`);
         const actionObj = streamDeck.actions.getActionById(context);
         if (actionObj) {
-          void renderButton(actionObj, slot, info);
+          void renderButton(actionObj, { slot, info, session_id: storeRef?.shownSession(slot) });
         } else {
           logger.warn(`Slot ${slot}: action not found for context ${context}`);
         }
       }
     }
+    // Pinned keys follow their project: redraw when it shows up in, or leaves, this slot
+    for (const context of contextPinned.keys()) {
+      if (keyTarget(context)?.slot !== slot && pinnedSlot.get(context) !== slot) continue;
+      const actionObj = streamDeck.actions.getActionById(context);
+      if (actionObj) void renderKey(actionObj);
+    }
+  }
+
+  /** Redraw every key — after a bank change or a slot count change. */
+  static refreshAll(): void {
+    activeBank = Math.min(activeBank, bankCount(slotCount()) - 1);
+    for (const context of bankContexts) {
+      const actionObj = streamDeck.actions.getActionById(context);
+      if (actionObj) void renderBankKey(actionObj);
+    }
+    if (!storeRef) return;
+    for (const context of sessionContexts()) {
+      const actionObj = streamDeck.actions.getActionById(context);
+      if (actionObj) void renderKey(actionObj);
+    }
+  }
+
+  /** Ticker callback: redraw keys whose elapsed label changed. Returns true while any key shows a timer. */
+  static tick(now: number): boolean {
+    if (!storeRef) return false;
+    let ticking = false;
+    for (const context of sessionContexts()) {
+      if (timerHidden.has(context)) continue;
+      const target = keyTarget(context);
+      if (!target) continue;
+      const label = elapsedLabel(target.info, now);
+      if (label !== undefined) ticking = true;
+      if (label === drawnTimer.get(context)) continue;
+      const actionObj = streamDeck.actions.getActionById(context);
+      if (actionObj) void renderButton(actionObj, target);
+    }
+    return ticking;
+  }
+
+  /** Keys showing an animated state (spinner, pulse, blinking border). */
+  private static animatedContexts(): [string, KeyTarget][] {
+    const animated: [string, KeyTarget][] = [];
+    for (const context of sessionContexts()) {
+      const target = keyTarget(context);
+      if (target && isAnimated(target.info)) animated.push([context, target]);
+    }
+    return animated;
+  }
+
+  /** Animation frame: redraw every visible key in an animated state. */
+  static animate(): void {
+    for (const [context, target] of ClaudeSession.animatedContexts()) {
+      const actionObj = streamDeck.actions.getActionById(context);
+      if (actionObj) void renderButton(actionObj, target);
+    }
+  }
+
+  static isAnimating(): boolean {
+    return ClaudeSession.animatedContexts().length > 0;
   }
 }
+
+registerTick((now) => ClaudeSession.tick(now));
+registerAnimation({ active: () => ClaudeSession.isAnimating(), draw: () => ClaudeSession.animate() });
@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import { summarizeAttention, needsAttention, mostUrgent } from "./attention";
+
+describe("needsAttention", () => {
+  it("covers permission, error, done and stale slots", () => {
+    expect(needsAttention({ state: "permission", ts: 0 })).toBe(true);
+    expect(needsAttention({ state: "error", ts: 0 })).toBe(true);
+    expect(needsAttention({ state: "done", ts: 0 })).toBe(true);
+    expect(needsAttention({ state: "thinking", ts: 0, stale: true })).toBe(true);
+    expect(needsAttention({ state: "thinking", ts: 0 })).toBe(false);
+    expect(needsAttention({ state: "offline", ts: 0 })).toBe(false);
+  });
+
+  it("ignores acknowledged slots", () => {
+    expect(needsAttention({ state: "done", ts: 0, seenAt: 5 })).toBe(false);
+  });
+});
+
+describe("summarizeAttention", () => {
+  it("returns offline and no target when every slot is offline", () => {
+    expect(summarizeAttention({ 1: { state: "offline", ts: 0 }, 2: { state: "offline", ts: 0 } })).toEqual({
+      permission: 0, error: 0, done: 0, thinking: 0, urgent: "offline",
+    });
+  });
+
+  it("counts slots per bucket, folding compacting into thinking", () => {
+    const summary = summarizeAttention({
+      1: { state: "thinking", ts: 10 },
+      2: { state: "compacting", ts: 10 },
+      3: { state: "done", ts: 10 },
+      4: { state: "done", ts: 10 },
+      5: { state: "error", ts: 10 },
+    });
+    expect(summary).toMatchObject({ permission: 0, error: 1, done: 2, thinking: 2 });
+  });
+
+  it("takes the most urgent state", () => {
+    expect(summarizeAttention({ 1: { state: "done", ts: 0 }, 2: { state: "error", ts: 0 } }).urgent).toBe("error");
+    expect(summarizeAttention({ 1: { state: "error", ts: 0 }, 2: { state: "permission", ts: 0 } }).urgent).toBe("permission");
+    expect(summarizeAttention({ 1: { state: "idle", ts: 0 }, 2: { state: "thinking", ts: 0 } }).urgent).toBe("thinking");
+  });
+
+  it("targets the slot that has waited longest, by since", () => {
+    const summary = summarizeAttention({
+      1: { state: "thinking", ts: 1 },
+      2: { state: "done", ts: 500, since: 300 },
+      3: { state: "permission", ts: 400, since: 400 },
+      4: { state: "thinking", ts: 200, stale: true },
+    });
+    expect(summary.next).toBe(4);
+  });
+
+  it("skips acknowledged done and error slots in counts, color and target", () => {
+    const summary = summarizeAttention({
+      1: { state: "error", ts: 10, seenAt: 20 },
+      2: { state: "done", ts: 50 },
+      3: { state: "done", ts: 5, seenAt: 30 },
+    });
+    expect(summary).toMatchObject({ error: 0, done: 1, urgent: "done", next: 2 });
+  });
+});
+
+describe("mostUrgent", () => {
+  it("prefers the more urgent state, unacknowledged panes and then the latest update", () => {
+    expect(mostUrgent([{ state: "thinking", ts: 10 }, { state: "permission", ts: 5 }])).toBe(1);
+    expect(mostUrgent([{ state: "done", ts: 10, seenAt: 20 }, { state: "idle", ts: 5 }])).toBe(1);
+    expect(mostUrgent([{ state: "thinking", ts: 10 }, { state: "thinking", ts: 30 }])).toBe(1);
+    expect(mostUrgent([])).toBe(-1);
+  });
+});
@@ -0,0 +1,57 @@
+import type { SessionInfo, SessionState } from "./types";
+
+// Most urgent first — the overview key takes the color of the first state present
+export const URGENCY: readonly SessionState[] = ["permission", "error", "done", "thinking", "compacting", "idle", "offline"];
+
+// States where a person is needed; stale slots of any state count too. Acknowledged (seen) slots don't.
+const NEEDS_ATTENTION = new Set<SessionState>(["permission", "error", "done"]);
+
+export type AttentionSummary = {
+  permission: number;
+  error: number;     // unseen only
+  done: number;      // unseen only
+  thinking: number;  // thinking + compacting
+  urgent: SessionState;  // most urgent state across unseen slots (offline if none)
+  next?: number;         // slot that has waited longest for attention
+};
+
+export const needsAttention = (info: SessionInfo): boolean =>
+  info.seenAt === undefined && (NEEDS_ATTENTION.has(info.state) || info.stale === true);
+
+/** Count slots per attention bucket and pick the slot to jump to (oldest `since` among those needing attention). */
+export const summarizeAttention = (slots: Record<number, SessionInfo>): AttentionSummary => {
+  const summary: AttentionSummary = { permission: 0, error: 0, done: 0, thinking: 0, urgent: "offline" };
+  let nextSince = Infinity;
+
+  for (const [key, info] of Object.entries(slots)) {
+    if (info.state === "permission") summary.permission++;
+    if ((info.state === "error" || info.state === "done") && info.seenAt === undefined) summary[info.state]++;
+    if (info.state === "thinking" || info.state === "compacting") summary.thinking++;
+    // Acknowledged slots don't color the key
+    if (info.seenAt === undefined && URGENCY.indexOf(info.state) < URGENCY.indexOf(summary.urgent)) summary.urgent = info.state;
+
+    const since = info.since ?? info.ts;
+    if (needsAttention(info) && since < nextSince) {
+      nextSince = since;
+      summary.next = Number(key);
+    }
+  }
+  return summary;
+};
+
+/**
+ * Index of the pane a split-pane slot shows: unacknowledged before acknowledged, then by URGENCY,
+ * then the most recently updated. -1 when there are no panes.
+ */
+export const mostUrgent = (panes: readonly SessionInfo[]): number => {
+  const rank = (info: SessionInfo): number[] => [info.seenAt === undefined ? 0 : 1, URGENCY.indexOf(info.state), -info.ts];
+  const before = (a: number[], b: number[]): boolean => {
+    const diff = a.map((x, i) => x - b[i]!).find((d) => d !== 0);
+    return diff !== undefined && diff < 0;
+  };
+  let best = -1;
+  for (let i = 0; i < panes.length; i++) {
+    if (best === -1 || before(rank(panes[i]!), rank(panes[best]!))) best = i;
+  }
+  return best;
+};
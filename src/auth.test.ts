@@ -0,0 +1,60 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { chmodSync, mkdtempSync, readFileSync, rmSync, statSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { loadOrCreateToken, isAuthorized } from "./auth";
+
+describe("loadOrCreateToken", () => {
+  let dir: string | undefined;
+
+  afterEach(() => {
+    if (dir) rmSync(dir, { recursive: true, force: true });
+    dir = undefined;
+  });
+
+  it("creates an owner-only token file", () => {
+    dir = mkdtempSync(join(tmpdir(), "claude-status-"));
+    const file = join(dir, "nested", "token");
+    const token = loadOrCreateToken(file);
+    expect(token).toMatch(/^[0-9a-f]{64}$/);
+    expect(readFileSync(file, "utf-8").trim()).toBe(token);
+    expect(statSync(file).mode & 0o777).toBe(0o600);
+    expect(statSync(join(dir, "nested")).mode & 0o777).toBe(0o700);
+  });
+
+  it("reuses an existing token and tightens its permissions and its directory's", () => {
+    dir = mkdtempSync(join(tmpdir(), "claude-status-"));
+    chmodSync(dir, 0o755);
+    const file = join(dir, "token");
+    const existing = "a".repeat(64);
+    writeFileSync(file, `${existing}\n`, { mode: 0o644 });
+    expect(loadOrCreateToken(file)).toBe(existing);
+    expect(statSync(file).mode & 0o777).toBe(0o600);
+    expect(statSync(dir).mode & 0o777).toBe(0o700);
+  });
+
+  it("replaces a malformed token", () => {
+    dir = mkdtempSync(join(tmpdir(), "claude-status-"));
+    const file = join(dir, "token");
+    writeFileSync(file, "short");
+    expect(loadOrCreateToken(file)).toMatch(/^[0-9a-f]{64}$/);
+  });
+});
+
+describe("isAuthorized", () => {
+  const token = "b".repeat(64);
+
+  it("accepts the matching bearer token", () => {
+    expect(isAuthorized(`Bearer ${token}`, token)).toBe(true);
+    expect(isAuthorized(`bearer ${token}`, token)).toBe(true);
+  });
+
+  it("rejects missing, malformed or wrong tokens", () => {
+    expect(isAuthorized(undefined, token)).toBe(false);
+    expect(isAuthorized("", token)).toBe(false);
+    expect(isAuthorized(token, token)).toBe(false);
+    expect(isAuthorized("Bearer ", token)).toBe(false);
+    expect(isAuthorized(`Bearer ${"c".repeat(64)}`, token)).toBe(false);
+    expect(isAuthorized(`Bearer ${token}x`, token)).toBe(false);
+  });
+});
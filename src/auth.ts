@@ -0,0 +1,45 @@
+import { randomBytes, timingSafeEqual } from "node:crypto";
+import { chmodSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { CACHE_DIR } from "./state";
+
+// Shared secret for the local HTTP API — read by sd-notify.sh and the iTerm2 daemon
+export const TOKEN_FILE = join(CACHE_DIR, "token");
+
+const TOKEN_PATTERN = /^[A-Za-z0-9_-]{32,128}$/;
+
+/**
+ * Read the API token, generating one if missing or malformed.
+ * The file is owner-only (0600) in an owner-only directory (0700); permissions are re-tightened on every load.
+ */
+export const loadOrCreateToken = (file: string = TOKEN_FILE): string => {
+  const dir = dirname(file);
+  mkdirSync(dir, { recursive: true, mode: 0o700 });
+  // mkdirSync's mode only applies to directories it creates
+  chmodSync(dir, 0o700);
+
+  let token: string | undefined;
+  try {
+    const existing = readFileSync(file, "utf-8").trim();
+    if (TOKEN_PATTERN.test(existing)) token = existing;
+  } catch {
+    // Missing — generate below
+  }
+
+  if (token === undefined) {
+    token = randomBytes(32).toString("hex");
+    writeFileSync(file, `${token}\n`, { mode: 0o600 });
+  }
+  chmodSync(file, 0o600);
+  return token;
+};
+
+/** Check an `Authorization: Bearer <token>` header in constant time. */
+export const isAuthorized = (header: string | undefined, token: string): boolean => {
+  if (header === undefined) return false;
+  const match = /^Bearer\s+(\S+)$/i.exec(header.trim());
+  if (!match) return false;
+  const given = Buffer.from(match[1]!);
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+};
@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { DecisionBroker } from "./decisions";
+import type { DecisionTarget } from "./decisions";
+import { SessionStore } from "./state";
+import { HistoryLog } from "./history";
+
+const s1 = { slot: 1, session_id: "s1" };
+
+describe("DecisionBroker", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("resolves a pending request with the deck's answer", async () => {
+    const broker = new DecisionBroker();
+    const decision = broker.request(s1, { tool: "Bash", command: "npm test" });
+    expect(broker.get(s1)).toEqual(expect.objectContaining({ tool: "Bash", command: "npm test" }));
+    expect(broker.resolve(s1, "allow")).toBe(true);
+    await expect(decision).resolves.toBe("allow");
+    expect(broker.get(s1)).toBeUndefined();
+  });
+
+  it("returns false when resolving a session with nothing pending", () => {
+    const broker = new DecisionBroker();
+    expect(broker.resolve({ slot: 3, session_id: "s3" }, "deny")).toBe(false);
+  });
+
+  it("falls back to ask on timeout", async () => {
+    vi.useFakeTimers();
+    const broker = new DecisionBroker();
+    const decision = broker.request(s1, { tool: "Bash" }, 1000);
+    vi.advanceTimersByTime(1000);
+    await expect(decision).resolves.toBe("ask");
+    expect(broker.get(s1)).toBeUndefined();
+  });
+
+  it("falls back to ask when the hook disconnects", async () => {
+    const broker = new DecisionBroker();
+    const abort = new AbortController();
+    const decision = broker.request(s1, { tool: "Bash" }, 10_000, abort.signal);
+    abort.abort();
+    await expect(decision).resolves.toBe("ask");
+  });
+
+  it("supersedes an older request from the same session", async () => {
+    vi.useFakeTimers();
+    const broker = new DecisionBroker();
+    const first = broker.request(s1, { tool: "Bash" }, 1000);
+    const second = broker.request(s1, { tool: "Edit" }, 5000);
+    await expect(first).resolves.toBe("ask");
+
+    // The first request's timer must not cancel the second one
+    vi.advanceTimersByTime(1000);
+    expect(broker.get(s1)?.tool).toBe("Edit");
+    broker.resolve(s1, "deny");
+    await expect(second).resolves.toBe("deny");
+  });
+
+  it("keeps one request per split pane of a slot", async () => {
+    const broker = new DecisionBroker();
+    const left = broker.request({ slot: 1, session_id: "left" }, { tool: "Bash" });
+    const right = broker.request({ slot: 1, session_id: "right" }, { tool: "Edit" });
+    expect(broker.pendingIn(1)).toEqual([{ slot: 1, session_id: "left" }, { slot: 1, session_id: "right" }]);
+
+    broker.resolve({ slot: 1, session_id: "right" }, "deny");
+    await expect(right).resolves.toBe("deny");
+    expect(broker.get({ slot: 1, session_id: "left" })?.tool).toBe("Bash");
+    broker.resolve({ slot: 1, session_id: "left" }, "allow");
+    await expect(left).resolves.toBe("allow");
+  });
+
+  it("falls back to one request per slot without a session id", async () => {
+    const broker = new DecisionBroker();
+    const first = broker.request({ slot: 2 }, { tool: "Bash" });
+    void broker.request({ slot: 2 }, { tool: "Edit" });
+    await expect(first).resolves.toBe("ask");
+    expect(broker.get({ slot: 2 })?.tool).toBe("Edit");
+    expect(broker.pendingIn(2)).toEqual([{ slot: 2 }]);
+  });
+
+  it("cancel answers ask", async () => {
+    const broker = new DecisionBroker();
+    const decision = broker.request({ slot: 2, session_id: "s2" }, { tool: "Write" });
+    broker.cancel({ slot: 2, session_id: "s2" });
+    await expect(decision).resolves.toBe("ask");
+  });
+
+  it("notifies listeners when a request is added and settled", () => {
+    const broker = new DecisionBroker();
+    const listener = vi.fn();
+    broker.subscribe(listener);
+    void broker.request({ slot: 4, session_id: "s4" }, { tool: "Bash" });
+    expect(listener).toHaveBeenLastCalledWith({ slot: 4, session_id: "s4" }, expect.objectContaining({ tool: "Bash" }));
+    broker.resolve({ slot: 4, session_id: "s4" }, "allow");
+    expect(listener).toHaveBeenLastCalledWith({ slot: 4, session_id: "s4" }, undefined);
+  });
+});
+
+describe("DecisionBroker.releaseAnswered", () => {
+  it("keeps a request through a late, older update and releases it once the pane moves on", async () => {
+    const store = new SessionStore(8, new HistoryLog(), undefined);
+    const broker = new DecisionBroker();
+    const paneOf = (target: DecisionTarget) => store.getPane(target.slot, target.session_id);
+    store.updateMapping({ s1: 1 });
+    store.update({ session_id: "s1", state: "thinking", prompt: "deploy", ts: 100 });
+    // PermissionRequest (hook started at 120) — then the async PreToolUse stamped at 110 lands
+    store.update({ session_id: "s1", state: "permission", ts: 120 });
+    const decision = broker.request({ slot: 1, session_id: "s1" }, { tool: "Bash" });
+    expect(store.update({ session_id: "s1", state: "thinking", ts: 110 })).toMatchObject({ reason: "out_of_order" });
+    broker.releaseAnswered(1, paneOf);
+    expect(broker.get({ slot: 1, session_id: "s1" })).toBeDefined();
+
+    // Answered in the terminal: the tool runs
+    store.update({ session_id: "s1", state: "thinking", ts: 200 });
+    broker.releaseAnswered(1, paneOf);
+    await expect(decision).resolves.toBe("ask");
+  });
+});
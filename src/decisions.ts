@@ -0,0 +1,129 @@
+import type { SessionInfo } from "./types";
+
+export type Decision = "allow" | "deny" | "ask";
+
+export type PendingDecision = {
+  tool: string;
+  command?: string;
+  ts: number;
+};
+
+// Whose prompt: the session (one pane of a split tab) and the slot it was in when it asked.
+// Requests without a session_id (older hooks) fall back to one per slot.
+export type DecisionTarget = { slot: number; session_id?: string };
+
+export type DecisionListener = (target: DecisionTarget, pending: PendingDecision | undefined) => void;
+
+type Waiter = PendingDecision & {
+  slot: number;
+  settle: (decision: Decision) => void;
+  timer: ReturnType<typeof setTimeout>;
+};
+
+// Hook commands are killed by Claude Code after 60s — answer "ask" well before that
+export const DECISION_TIMEOUT_MS = 55_000;
+export const DECISION_TIMEOUT_MAX_MS = 110_000;
+
+/**
+ * Holds permission requests that a blocked PermissionRequest hook is long-polling on.
+ * At most one request per session, so split panes of one tab each keep their own;
+ * "ask" means "no answer from the deck — show the normal prompt".
+ */
+export class DecisionBroker {
+  private readonly waiters = new Map<string, Waiter>();
+  private readonly listeners = new Set<DecisionListener>();
+
+  /**
+   * Register a pending request for a session and wait for an answer.
+   * Resolves "ask" on timeout, on abort (hook disconnected), or when superseded by a newer request.
+   */
+  request(
+    target: DecisionTarget,
+    pending: Omit<PendingDecision, "ts">,
+    timeoutMs: number = DECISION_TIMEOUT_MS,
+    signal?: AbortSignal,
+  ): Promise<Decision> {
+    // A newer prompt from the same session supersedes the old one
+    const key = waiterKey(target);
+    this.settle(key, "ask");
+
+    return new Promise((resolve) => {
+      const waiter: Waiter = {
+        ...pending,
+        slot: target.slot,
+        ts: Date.now(),
+        settle: resolve,
+        timer: setTimeout(() => this.settle(key, "ask", waiter), timeoutMs),
+      };
+      this.waiters.set(key, waiter);
+      signal?.addEventListener("abort", () => this.settle(key, "ask", waiter), { once: true });
+      this.notify(targetOf(key, waiter), this.get(target));
+    });
+  }
+
+  /** Answer the pending request of a session. Returns false if nothing was pending. */
+  resolve(target: DecisionTarget, decision: Decision): boolean {
+    return this.settle(waiterKey(target), decision);
+  }
+
+  /** Release the pending request of a session (e.g. the prompt was answered in the terminal). */
+  cancel(target: DecisionTarget): void {
+    this.settle(waiterKey(target), "ask");
+  }
+
+  get(target: DecisionTarget): PendingDecision | undefined {
+    const waiter = this.waiters.get(waiterKey(target));
+    if (!waiter) return undefined;
+    return { tool: waiter.tool, command: waiter.command, ts: waiter.ts };
+  }
+
+  /**
+   * Release the slot's requests whose pane left permission (answered in the terminal, session ended, closed).
+   * `paneOf` is the store's current pane for a target; an update the store rejected (e.g. a late async
+   * PreToolUse, out of order) never changed it, so the request stays.
+   */
+  releaseAnswered(slot: number, paneOf: (target: DecisionTarget) => SessionInfo | undefined): void {
+    for (const target of this.pendingIn(slot)) {
+      if (paneOf(target)?.state !== "permission") this.cancel(target);
+    }
+  }
+
+  /** Every session with a request pending from the given slot (the slot it asked from). */
+  pendingIn(slot: number): DecisionTarget[] {
+    return [...this.waiters.entries()]
+      .filter(([, waiter]) => waiter.slot === slot)
+      .map(([key, waiter]) => targetOf(key, waiter));
+  }
+
+  subscribe(fn: DecisionListener): () => void {
+    this.listeners.add(fn);
+    return () => {
+      this.listeners.delete(fn);
+    };
+  }
+
+  // `only` guards against a stale timer/abort settling a newer request from the same session
+  private settle(key: string, decision: Decision, only?: Waiter): boolean {
+    const waiter = this.waiters.get(key);
+    if (!waiter || (only !== undefined && waiter !== only)) return false;
+    clearTimeout(waiter.timer);
+    this.waiters.delete(key);
+    waiter.settle(decision);
+    this.notify(targetOf(key, waiter), undefined);
+    return true;
+  }
+
+  private notify(target: DecisionTarget, pending: PendingDecision | undefined): void {
+    for (const fn of this.listeners) {
+      fn(target, pending);
+    }
+  }
+}
+
+// Session ids are UUIDs, so the "slot:" fallback keys can't collide with them
+const SLOT_KEY = "slot:";
+
+const waiterKey = ({ slot, session_id }: DecisionTarget): string => session_id ?? `${SLOT_KEY}${slot}`;
+
+const targetOf = (key: string, waiter: Waiter): DecisionTarget =>
+  key.startsWith(SLOT_KEY) ? { slot: waiter.slot } : { slot: waiter.slot, session_id: key };
@@ -0,0 +1,38 @@
+import { describe, it, expect } from "vitest";
+import { formatElapsed, elapsedLabel } from "./elapsed";
+
+describe("formatElapsed", () => {
+  it("shows seconds under a minute", () => {
+    expect(formatElapsed(0)).toBe("0s");
+    expect(formatElapsed(38_900)).toBe("38s");
+  });
+
+  it("shows minutes and padded seconds under an hour", () => {
+    expect(formatElapsed(252_000)).toBe("4m12s");
+    expect(formatElapsed(65_000)).toBe("1m05s");
+  });
+
+  it("shows hours and padded minutes above an hour", () => {
+    expect(formatElapsed(3_900_000)).toBe("1h05m");
+  });
+
+  it("clamps negative durations (clock skew) to zero", () => {
+    expect(formatElapsed(-5000)).toBe("0s");
+  });
+});
+
+describe("elapsedLabel", () => {
+  it("measures from since, not the last update", () => {
+    expect(elapsedLabel({ state: "thinking", ts: 50_000, since: 10_000 }, 70_000)).toBe("1m00s");
+  });
+
+  it("falls back to ts when since is missing", () => {
+    expect(elapsedLabel({ state: "permission", ts: 10_000 }, 48_000)).toBe("38s");
+  });
+
+  it("is undefined for untimed states", () => {
+    expect(elapsedLabel({ state: "idle", ts: 10_000 }, 48_000)).toBeUndefined();
+    expect(elapsedLabel({ state: "done", ts: 10_000 }, 48_000)).toBeUndefined();
+    expect(elapsedLabel({ state: "offline", ts: 0 }, 48_000)).toBeUndefined();
+  });
+});
@@ -0,0 +1,24 @@
+import type { SessionInfo, SessionState } from "./types";
+
+// States where "how long has it been" matters — only these are redrawn by the ticker
+export const TIMED_STATES: ReadonlySet<SessionState> = new Set(["thinking", "permission", "compacting"]);
+
+/**
+ * Compact elapsed time. Second precision under an hour ("38s", "4m12s"), minute precision
+ * above ("1h05m") — so long-stuck slots redraw once a minute instead of every second.
+ */
+export const formatElapsed = (ms: number): string => {
+  const totalSec = Math.max(0, Math.floor(ms / 1000));
+  if (totalSec < 60) return `${totalSec}s`;
+  const totalMin = Math.floor(totalSec / 60);
+  if (totalMin < 60) return `${totalMin}m${String(totalSec % 60).padStart(2, "0")}s`;
+  return `${Math.floor(totalMin / 60)}h${String(totalMin % 60).padStart(2, "0")}m`;
+};
+
+/** Time in the current state, or undefined if the slot isn't in a timed state. */
+export const elapsedLabel = (info: SessionInfo, now: number = Date.now()): string | undefined => {
+  if (!TIMED_STATES.has(info.state)) return undefined;
+  const since = info.since ?? info.ts;
+  if (since <= 0) return undefined;
+  return formatElapsed(now - since);
+};
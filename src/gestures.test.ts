@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { PressTracker, LONG_PRESS_MS, DOUBLE_PRESS_MS, answerPending } from "./gestures";
+import { DecisionBroker } from "./decisions";
+import { SessionStore } from "./state";
+import { HistoryLog } from "./history";
+
+describe("PressTracker", () => {
+  it("classifies a short press", () => {
+    const presses = new PressTracker();
+    presses.down("ctx", 0);
+    expect(presses.up("ctx", 100)).toBe("press");
+  });
+
+  it("classifies a long press", () => {
+    const presses = new PressTracker();
+    presses.down("ctx", 0);
+    expect(presses.up("ctx", LONG_PRESS_MS)).toBe("long");
+  });
+
+  it("classifies a double press within the window", () => {
+    const presses = new PressTracker();
+    presses.down("ctx", 0);
+    expect(presses.up("ctx", 100)).toBe("press");
+    presses.down("ctx", 100 + DOUBLE_PRESS_MS);
+    expect(presses.up("ctx", 150 + DOUBLE_PRESS_MS)).toBe("double");
+  });
+
+  it("treats a slow second tap as a new press", () => {
+    const presses = new PressTracker();
+    presses.down("ctx", 0);
+    presses.up("ctx", 100);
+    presses.down("ctx", 101 + DOUBLE_PRESS_MS);
+    expect(presses.up("ctx", 150 + DOUBLE_PRESS_MS)).toBe("press");
+  });
+
+  it("returns undefined for an up without a down", () => {
+    const presses = new PressTracker();
+    expect(presses.up("ctx", 100)).toBeUndefined();
+  });
+
+  it("tracks contexts independently", () => {
+    const presses = new PressTracker();
+    presses.down("a", 0);
+    presses.up("a", 100);
+    presses.down("b", 150);
+    expect(presses.up("b", 200)).toBe("press");
+  });
+});
+
+describe("PressTracker.settle", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("reports a single press once the double-press window has passed", async () => {
+    vi.useFakeTimers();
+    const presses = new PressTracker();
+    presses.down("ctx", 0);
+    const gesture = presses.settle("ctx", 100);
+    await vi.advanceTimersByTimeAsync(DOUBLE_PRESS_MS);
+    await expect(gesture).resolves.toBe("press");
+  });
+
+  it("drops the first tap of a double press", async () => {
+    vi.useFakeTimers();
+    const presses = new PressTracker();
+    presses.down("ctx", 0);
+    const first = presses.settle("ctx", 100);
+    presses.down("ctx", 200);
+    const second = presses.settle("ctx", 250);
+    await vi.advanceTimersByTimeAsync(DOUBLE_PRESS_MS);
+    await expect(first).resolves.toBeUndefined();
+    await expect(second).resolves.toBe("double");
+  });
+
+  it("drops the first tap while the second is still held", async () => {
+    vi.useFakeTimers();
+    const presses = new PressTracker();
+    presses.down("ctx", 0);
+    const first = presses.settle("ctx", 100);
+    presses.down("ctx", 200);
+    await vi.advanceTimersByTimeAsync(DOUBLE_PRESS_MS);
+    await expect(first).resolves.toBeUndefined();
+  });
+
+  it("reports long presses right away", async () => {
+    const presses = new PressTracker();
+    presses.down("ctx", 0);
+    await expect(presses.settle("ctx", LONG_PRESS_MS)).resolves.toBe("long");
+  });
+});
+
+describe("answerPending", () => {
+  const setup = () => {
+    const store = new SessionStore(8, new HistoryLog(), undefined);
+    const decisions = new DecisionBroker();
+    store.updateMapping({ s1: 1 });
+    store.update({ session_id: "s1", state: "permission", detail: "Bash: npm test", ts: 100 });
+    const decision = decisions.request({ slot: 1, session_id: "s1" }, { tool: "Bash" });
+    return { store, decisions, decision };
+  };
+
+  it("allows on a hold and moves the pane on to thinking", async () => {
+    const { store, decisions, decision } = setup();
+    expect(answerPending("long", { slot: 1, session_id: "s1" }, decisions, store)).toBe("allow");
+    await expect(decision).resolves.toBe("allow");
+    expect(store.get(1).state).toBe("thinking");
+  });
+
+  it("denies on a double press and moves the pane to idle", async () => {
+    const { store, decisions, decision } = setup();
+    expect(answerPending("double", { slot: 1, session_id: "s1" }, decisions, store)).toBe("deny");
+    await expect(decision).resolves.toBe("deny");
+    expect(store.get(1).state).toBe("idle");
+  });
+
+  it("leaves the request and the pane alone on a single press or with nothing pending", () => {
+    const { store, decisions } = setup();
+    expect(answerPending("press", { slot: 1, session_id: "s1" }, decisions, store)).toBeUndefined();
+    expect(answerPending("long", { slot: 1, session_id: "other" }, decisions, store)).toBeUndefined();
+    expect(decisions.get({ slot: 1, session_id: "s1" })).toBeDefined();
+    expect(store.get(1).state).toBe("permission");
+  });
+});
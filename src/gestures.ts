@@ -0,0 +1,82 @@
+import type { Decision, DecisionBroker, DecisionTarget } from "./decisions";
+import type { SessionStore } from "./state";
+import type { SessionState } from "./types";
+
+export type Gesture = "press" | "long" | "double";
+
+// Hold at least this long for a long press
+export const LONG_PRESS_MS = 600;
+// Second tap within this window of the previous tap is a double press
+export const DOUBLE_PRESS_MS = 400;
+
+/** Classifies key/dial presses per action context from down/up timestamps. */
+export class PressTracker {
+  private readonly downAt = new Map<string, number>();
+  private readonly lastTapAt = new Map<string, number>();
+
+  down(context: string, now: number = Date.now()): void {
+    this.downAt.set(context, now);
+  }
+
+  /** Returns undefined if no matching down was recorded (e.g. the press started on another page). */
+  up(context: string, now: number = Date.now()): Gesture | undefined {
+    const downAt = this.downAt.get(context);
+    if (downAt === undefined) return undefined;
+    this.downAt.delete(context);
+
+    if (now - downAt >= LONG_PRESS_MS) {
+      this.lastTapAt.delete(context);
+      return "long";
+    }
+
+    const lastTap = this.lastTapAt.get(context);
+    if (lastTap !== undefined && downAt - lastTap <= DOUBLE_PRESS_MS) {
+      this.lastTapAt.delete(context);
+      return "double";
+    }
+
+    this.lastTapAt.set(context, now);
+    return "press";
+  }
+
+  /**
+   * up() for a key that acts on single presses too: a short press is reported only once DOUBLE_PRESS_MS
+   * passed without a second tap. Undefined when one came (its own up is the "double"), so the first tap
+   * of a double press does nothing on its own.
+   */
+  async settle(context: string, now: number = Date.now()): Promise<Gesture | undefined> {
+    const gesture = this.up(context, now);
+    if (gesture !== "press") return gesture;
+    await new Promise((resolve) => setTimeout(resolve, DOUBLE_PRESS_MS));
+    return this.downAt.has(context) || this.lastTapAt.get(context) !== now ? undefined : "press";
+  }
+
+  forget(context: string): void {
+    this.downAt.delete(context);
+    this.lastTapAt.delete(context);
+  }
+}
+
+// What a gesture answers a pending permission request with — a single press only switches tabs
+const GESTURE_DECISIONS: Partial<Record<Gesture, Exclude<Decision, "ask">>> = { long: "allow", double: "deny" };
+
+// Where the pane goes once the deck answered: allowed → the tool runs; denied → back to Claude without it
+const ANSWERED_STATES: Record<Exclude<Decision, "ask">, SessionState> = { allow: "thinking", deny: "idle" };
+
+/**
+ * Answer the target's pending permission request from a key/dial gesture and move its pane out of permission
+ * right away — a tool that succeeds sends no update until it ends, so the prompt would otherwise keep blinking.
+ * Returns the decision sent, or undefined when the gesture answers nothing or nothing was pending.
+ */
+export const answerPending = (
+  gesture: Gesture,
+  target: DecisionTarget,
+  decisions: DecisionBroker,
+  store: Pick<SessionStore, "update">,
+): Exclude<Decision, "ask"> | undefined => {
+  const decision = GESTURE_DECISIONS[gesture];
+  if (decision === undefined || !decisions.resolve(target, decision)) return undefined;
+  const binding = target.session_id !== undefined ? { session_id: target.session_id } : { slot: target.slot };
+  store.update({ ...binding, state: ANSWERED_STATES[decision] });
+  return decision;
+};
@@ -0,0 +1,70 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { HistoryLog, HISTORY_MAX, summarizeHistory } from "./history";
+import type { HistoryEntry } from "./history";
+
+const entry = (overrides: Partial<HistoryEntry>): HistoryEntry => ({
+  slot: 1,
+  state: "thinking",
+  ts: 0,
+  rejected: false,
+  ...overrides,
+});
+
+describe("HistoryLog", () => {
+  let dir: string | undefined;
+
+  afterEach(() => {
+    if (dir) rmSync(dir, { recursive: true, force: true });
+    dir = undefined;
+  });
+
+  it("keeps entries per slot and per session_id", () => {
+    const log = new HistoryLog();
+    log.record(entry({ slot: 1, session_id: "a", ts: 1 }));
+    log.record(entry({ slot: 2, session_id: "b", ts: 2 }));
+    log.record(entry({ slot: 1, session_id: "a", state: "done", ts: 3 }));
+    expect(log.forSlot(1).map((e) => e.state)).toEqual(["thinking", "done"]);
+    expect(log.forSession("b")).toHaveLength(1);
+    expect(log.forSession("unknown")).toEqual([]);
+  });
+
+  it("is bounded to HISTORY_MAX entries, dropping the oldest", () => {
+    const log = new HistoryLog();
+    for (let i = 0; i < HISTORY_MAX + 5; i++) log.record(entry({ ts: i }));
+    const entries = log.forSlot(1);
+    expect(entries).toHaveLength(HISTORY_MAX);
+    expect(entries[0]!.ts).toBe(5);
+  });
+
+  it("round-trips through disk", () => {
+    dir = mkdtempSync(join(tmpdir(), "claude-status-"));
+    const file = join(dir, "history.json");
+    const log = new HistoryLog(file);
+    log.record(entry({ slot: 3, session_id: "s", ts: 10, prompt: "fix" }));
+    log.flush();
+    const restored = new HistoryLog(file);
+    expect(restored.loadFromDisk()).toBe(2);
+    expect(restored.forSlot(3)).toEqual([entry({ slot: 3, session_id: "s", ts: 10, prompt: "fix" })]);
+    expect(restored.forSession("s")).toHaveLength(1);
+  });
+});
+
+describe("summarizeHistory", () => {
+  it("sums time per state and counts entries into each state", () => {
+    const summary = summarizeHistory([
+      entry({ state: "thinking", ts: 0 }),
+      entry({ state: "thinking", ts: 1000 }),
+      entry({ state: "permission", ts: 3000 }),
+      entry({ state: "idle", ts: 3500, rejected: true }),
+      entry({ state: "thinking", ts: 4000 }),
+      entry({ state: "permission", ts: 5000 }),
+      entry({ state: "done", ts: 6000 }),
+    ], 10_000);
+    expect(summary.durations).toEqual({ thinking: 4000, permission: 2000, done: 4000 });
+    expect(summary.counts).toEqual({ thinking: 2, permission: 2, done: 1 });
+    expect(summary.rejected).toBe(1);
+  });
+});
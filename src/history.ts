@@ -0,0 +1,134 @@
+import { readFileSync } from "node:fs";
+import type { SessionState } from "./types";
+import { isSessionState } from "./types";
+import type { RejectReason } from "./transitions";
+import { JsonFile } from "./persist";
+
+export type HistoryEntry = {
+  slot: number;
+  session_id?: string;
+  state: SessionState;
+  ts: number;
+  detail?: string;
+  prompt?: string;
+  rejected: boolean;  // dropped by the store (out-of-order, done → idle)
+  reason?: RejectReason;  // why, when rejected
+};
+
+export type HistorySummary = {
+  // Time spent in each state, from accepted transitions (last state runs until `now`)
+  durations: Partial<Record<SessionState, number>>;
+  // Number of accepted transitions into each state (consecutive same-state updates count once)
+  counts: Partial<Record<SessionState, number>>;
+  rejected: number;
+};
+
+// Entries kept per slot and per session_id
+export const HISTORY_MAX = 200;
+// session_id buffers kept (least recently updated evicted first)
+const HISTORY_SESSIONS_MAX = 64;
+
+const isEntry = (x: unknown): x is HistoryEntry => {
+  if (typeof x !== "object" || x === null) return false;
+  const e = x as Record<string, unknown>;
+  return typeof e.slot === "number" && isSessionState(e.state) && typeof e.ts === "number" && typeof e.rejected === "boolean";
+};
+
+const push = (buffer: HistoryEntry[], entry: HistoryEntry): void => {
+  buffer.push(entry);
+  if (buffer.length > HISTORY_MAX) buffer.splice(0, buffer.length - HISTORY_MAX);
+};
+
+/** Bounded transition log per slot and per session_id, persisted next to state.json. */
+export class HistoryLog {
+  private readonly bySlot = new Map<number, HistoryEntry[]>();
+  // Map insertion order = recency (re-inserted on every record)
+  private readonly bySession = new Map<string, HistoryEntry[]>();
+
+  // Coalesced, atomic writes (same as state.json)
+  private readonly out: JsonFile | undefined;
+
+  constructor(private readonly file?: string) {
+    this.out = file !== undefined
+      ? new JsonFile(file, () => JSON.stringify({ slots: Object.fromEntries(this.bySlot), sessions: Object.fromEntries(this.bySession) }))
+      : undefined;
+  }
+
+  record(entry: HistoryEntry): void {
+    const slotBuffer = this.bySlot.get(entry.slot) ?? [];
+    push(slotBuffer, entry);
+    this.bySlot.set(entry.slot, slotBuffer);
+
+    if (entry.session_id !== undefined) {
+      const sessionBuffer = this.bySession.get(entry.session_id) ?? [];
+      this.bySession.delete(entry.session_id);
+      push(sessionBuffer, entry);
+      this.bySession.set(entry.session_id, sessionBuffer);
+      if (this.bySession.size > HISTORY_SESSIONS_MAX) {
+        const oldest = this.bySession.keys().next().value;
+        if (oldest !== undefined) this.bySession.delete(oldest);
+      }
+    }
+
+    this.out?.schedule();
+  }
+
+  forSlot(slot: number): HistoryEntry[] {
+    return [...(this.bySlot.get(slot) ?? [])];
+  }
+
+  forSession(sessionId: string): HistoryEntry[] {
+    return [...(this.bySession.get(sessionId) ?? [])];
+  }
+
+  /** Load persisted history. Returns the number of entries restored. */
+  loadFromDisk(): number {
+    if (!this.file) return 0;
+    let restored = 0;
+    try {
+      const parsed: unknown = JSON.parse(readFileSync(this.file, "utf-8"));
+      if (typeof parsed !== "object" || parsed === null) return 0;
+      const obj = parsed as Record<string, unknown>;
+      const readGroup = (group: unknown, set: (id: string, entries: HistoryEntry[]) => void): void => {
+        if (typeof group !== "object" || group === null) return;
+        for (const [id, entries] of Object.entries(group)) {
+          if (!Array.isArray(entries)) continue;
+          const valid = entries.filter(isEntry).slice(-HISTORY_MAX);
+          if (valid.length === 0) continue;
+          set(id, valid);
+          restored += valid.length;
+        }
+      };
+      readGroup(obj.slots, (id, entries) => this.bySlot.set(Number(id), entries));
+      readGroup(obj.sessions, (id, entries) => this.bySession.set(id, entries));
+    } catch {
+      // File doesn't exist or is invalid — start fresh
+    }
+    return restored;
+  }
+
+  /** Write entries not yet on disk now (plugin exit). */
+  flush(): void {
+    this.out?.flush();
+  }
+}
+
+/** "How long did it think, how many times did it stop for permission" over a list of entries. */
+export const summarizeHistory = (entries: HistoryEntry[], now: number = Date.now()): HistorySummary => {
+  const summary: HistorySummary = { durations: {}, counts: {}, rejected: 0 };
+  const accepted = entries.filter((e) => {
+    if (e.rejected) summary.rejected++;
+    return !e.rejected;
+  });
+
+  accepted.forEach((entry, i) => {
+    const prev = accepted[i - 1];
+    if (prev?.state !== entry.state) {
+      summary.counts[entry.state] = (summary.counts[entry.state] ?? 0) + 1;
+    }
+    const end = accepted[i + 1]?.ts ?? now;
+    summary.durations[entry.state] = (summary.durations[entry.state] ?? 0) + Math.max(0, end - entry.ts);
+  });
+
+  return summary;
+};
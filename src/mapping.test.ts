@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { MappingSync } from "./mapping";
+import type { MappingMessage } from "./mapping";
+import type { SessionMapping } from "./types";
+
+const full = (instance: string, started: number, seq: number, sessions: SessionMapping): MappingMessage =>
+  ({ instance, started, seq, type: "full", sessions });
+const delta = (seq: number, changes: { add?: SessionMapping; move?: SessionMapping; remove?: string[] }): MappingMessage =>
+  ({ instance: "a", started: 100, seq, type: "delta", ...changes });
+
+describe("MappingSync", () => {
+  it("applies a full sync, then deltas in sequence", () => {
+    const sync = new MappingSync();
+    expect(sync.apply(full("a", 100, 1, { s1: 1, s2: 2 }))).toEqual({ outcome: "applied", mapping: { s1: 1, s2: 2 } });
+    expect(sync.apply(delta(2, { add: { s3: 3 }, move: { s1: 2, s2: 1 } }))).toEqual({ outcome: "applied", mapping: { s1: 2, s2: 1, s3: 3 } });
+    expect(sync.apply(delta(3, { remove: ["s2"] }))).toEqual({ outcome: "applied", mapping: { s1: 2, s3: 3 } });
+  });
+
+  it("asks for a resync on a gap or a move of an unknown session, and ignores repeats", () => {
+    const sync = new MappingSync();
+    expect(sync.apply(delta(1, { add: { s1: 1 } }))).toEqual({ outcome: "resync", reason: "unknown_instance" });
+    sync.apply(full("a", 100, 5, { s1: 1 }));
+    expect(sync.apply(delta(7, { add: { s2: 2 } }))).toEqual({ outcome: "resync", reason: "gap" });
+    expect(sync.apply(delta(6, { move: { s9: 2 } }))).toEqual({ outcome: "resync", reason: "gap" });
+    expect(sync.apply(delta(5, { remove: ["s1"] }))).toEqual({ outcome: "ignored", reason: "duplicate" });
+    // A full sync skips ahead
+    expect(sync.apply(full("a", 100, 9, { s2: 2 }))).toEqual({ outcome: "applied", mapping: { s2: 2 } });
+    expect(sync.apply(delta(10, { add: { s3: 3 } }))).toMatchObject({ outcome: "applied" });
+  });
+
+  it("adopts a newer daemon instance and ignores the one it replaced", () => {
+    const sync = new MappingSync();
+    sync.apply(full("a", 100, 40, { s1: 1 }));
+    expect(sync.apply(full("b", 200, 1, { s2: 1 }))).toEqual({ outcome: "applied", mapping: { s2: 1 } });
+    expect(sync.apply(full("a", 100, 41, {}))).toEqual({ outcome: "ignored", reason: "stale_instance" });
+    expect(sync.apply(delta(42, { remove: ["s1"] }))).toEqual({ outcome: "ignored", reason: "stale_instance" });
+  });
+
+  it("defers an instance's empty first snapshot", () => {
+    const sync = new MappingSync();
+    sync.apply(full("a", 100, 3, { s1: 1 }));
+    expect(sync.apply(full("b", 200, 1, {}))).toEqual({ outcome: "deferred" });
+    expect(sync.apply({ instance: "b", started: 200, seq: 2, type: "delta", add: { s2: 1 } })).toEqual({ outcome: "applied", mapping: { s2: 1 } });
+    expect(sync.apply({ instance: "b", started: 200, seq: 3, type: "full", sessions: {} })).toEqual({ outcome: "applied", mapping: {} });
+  });
+
+  it("wipes the mapping on a later empty full sync from the same instance (every window closed)", () => {
+    const sync = new MappingSync();
+    sync.apply(full("a", 100, 1, { s1: 1 }));
+    expect(sync.apply(full("a", 100, 2, {}))).toEqual({ outcome: "applied", mapping: {} });
+  });
+
+  it("treats unversioned snapshots as full syncs that a versioned daemon overrides", () => {
+    const sync = new MappingSync();
+    expect(sync.applyLegacy({})).toEqual({ outcome: "deferred" });
+    expect(sync.applyLegacy({ s1: 1 })).toEqual({ outcome: "applied", mapping: { s1: 1 } });
+    expect(sync.applyLegacy({ s1: 2 })).toEqual({ outcome: "applied", mapping: { s1: 2 } });
+
+    sync.apply(full("a", 100, 1, { s2: 1 }));
+    expect(sync.applyLegacy({})).toEqual({ outcome: "ignored", reason: "stale_instance" });
+    // The versioned base is untouched, so its next delta applies
+    expect(sync.apply(delta(2, { add: { s3: 2 } }))).toEqual({ outcome: "applied", mapping: { s2: 1, s3: 2 } });
+  });
+});
@@ -0,0 +1,102 @@
+import type { SessionMapping } from "./types";
+import { isSessionLocation } from "./types";
+
+// Versioned POST /sessions message from the iTerm2 daemon: a full sync (startup, heartbeat, resync)
+// or the changes since the previous message
+export type MappingMessage = {
+  instance: string;  // random id per daemon process
+  started: number;   // daemon start time (epoch ms) — the later instance wins
+  seq: number;       // per instance, +1 per message
+} & (
+  | { type: "full"; sessions: SessionMapping }
+  | { type: "delta"; add?: SessionMapping; move?: SessionMapping; remove?: string[] }
+);
+
+// What MappingSync.apply() did with a message (returned to the daemon)
+export type SyncOutcome =
+  | { outcome: "applied"; mapping: SessionMapping }                 // the full mapping after the message
+  | { outcome: "deferred" }                                          // empty first snapshot — slots are kept
+  | { outcome: "ignored"; reason: "stale_instance" | "duplicate" }
+  | { outcome: "resync"; reason: "unknown_instance" | "gap" };      // daemon should send a full sync
+
+// Where the daemon's sequence stands — persisted in state.json
+export type SyncState = { instance: string; started: number; seq: number; mapping: SessionMapping };
+
+// Instance id for unversioned snapshots (versioned daemons use random ids)
+const LEGACY_INSTANCE = "(legacy)";
+
+/**
+ * Rebuilds the daemon's mapping from full syncs and deltas.
+ * - Messages from an instance started before the current one (a dying daemon) are ignored.
+ * - A newer instance is adopted on its first full sync; its deltas before that ask for a resync.
+ * - Within an instance, seq must grow by one per delta. A gap (or a move of an unknown session,
+ *   i.e. its add was lost) asks for a resync; old or repeated seqs are ignored. Full syncs skip ahead.
+ * - An instance's first full sync is deferred when empty (iTerm2 still starting, no windows yet):
+ *   wiping every slot is left to a later message. A later empty full sync from the same instance is applied —
+ *   the daemon has been reporting, so it means every window was closed.
+ * - Unversioned snapshots from older daemons (applyLegacy) are full syncs of a pseudo-instance started at 0:
+ *   they get the same empty-first deferral, and any versioned daemon wins over them.
+ */
+export class MappingSync {
+  private instance: { id: string; started: number } | undefined;
+  private seq = 0;
+  private mapping: SessionMapping = {};
+
+  apply(message: MappingMessage): SyncOutcome {
+    const current = this.instance;
+    if (current && message.instance !== current.id && message.started < current.started) {
+      return { outcome: "ignored", reason: "stale_instance" };
+    }
+
+    if (!current || message.instance !== current.id) {
+      if (message.type !== "full") return { outcome: "resync", reason: "unknown_instance" };
+      this.instance = { id: message.instance, started: message.started };
+      this.seq = message.seq;
+      this.mapping = { ...message.sessions };
+      return Object.keys(this.mapping).length === 0
+        ? { outcome: "deferred" }
+        : { outcome: "applied", mapping: { ...this.mapping } };
+    }
+
+    if (message.seq <= this.seq) return { outcome: "ignored", reason: "duplicate" };
+
+    if (message.type === "full") {
+      this.mapping = { ...message.sessions };
+    } else {
+      const moved = Object.keys(message.move ?? {});
+      if (message.seq !== this.seq + 1 || moved.some((sessionId) => !(sessionId in this.mapping))) {
+        return { outcome: "resync", reason: "gap" };
+      }
+      const next = { ...this.mapping, ...message.add, ...message.move };
+      for (const sessionId of message.remove ?? []) delete next[sessionId];
+      this.mapping = next;
+    }
+    this.seq = message.seq;
+    return { outcome: "applied", mapping: { ...this.mapping } };
+  }
+
+  /** An unversioned snapshot ({ session_id: slot | location }), numbered on after the previous one. */
+  applyLegacy(sessions: SessionMapping): SyncOutcome {
+    const seq = this.instance?.id === LEGACY_INSTANCE ? this.seq + 1 : 1;
+    return this.apply({ instance: LEGACY_INSTANCE, started: 0, seq, type: "full", sessions });
+  }
+
+  save(): SyncState | undefined {
+    if (!this.instance) return undefined;
+    return { instance: this.instance.id, started: this.instance.started, seq: this.seq, mapping: { ...this.mapping } };
+  }
+
+  /** Continue a saved sequence, so the daemon's next delta after a plugin restart applies without a resync. */
+  restore(saved: unknown): boolean {
+    if (typeof saved !== "object" || saved === null) return false;
+    const { instance, started, seq, mapping } = saved as Record<string, unknown>;
+    if (typeof instance !== "string" || typeof started !== "number" || typeof seq !== "number") return false;
+    if (typeof mapping !== "object" || mapping === null) return false;
+    this.instance = { id: instance, started };
+    this.seq = seq;
+    this.mapping = Object.fromEntries(
+      Object.entries(mapping).filter(([, entry]) => typeof entry === "number" || isSessionLocation(entry)),
+    );
+    return true;
+  }
+}
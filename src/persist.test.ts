@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { existsSync, mkdtempSync, readdirSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { JsonFile, PERSIST_DELAY_MS, migrate } from "./persist";
+
+describe("JsonFile", () => {
+  let dir: string | undefined;
+  afterEach(() => {
+    vi.useRealTimers();
+    if (dir) rmSync(dir, { recursive: true, force: true });
+    dir = undefined;
+  });
+
+  it("coalesces changes into one atomic write of the latest state", async () => {
+    vi.useFakeTimers();
+    dir = mkdtempSync(join(tmpdir(), "claude-status-"));
+    const path = join(dir, "nested", "state.json");
+    let value = 0;
+    let writes = 0;
+    const file = new JsonFile(path, () => {
+      writes++;
+      return JSON.stringify({ value });
+    });
+
+    for (value = 1; value <= 3; value++) file.schedule();
+    expect(existsSync(path)).toBe(false);
+    await vi.advanceTimersByTimeAsync(PERSIST_DELAY_MS);
+    await file.idle();
+
+    expect(writes).toBe(1);
+    expect(JSON.parse(readFileSync(path, "utf-8"))).toEqual({ value: 4 });
+    expect(readdirSync(join(dir, "nested"))).toEqual(["state.json"]);
+  });
+
+  it("flushes pending changes synchronously, once", () => {
+    dir = mkdtempSync(join(tmpdir(), "claude-status-"));
+    const path = join(dir, "state.json");
+    let writes = 0;
+    const file = new JsonFile(path, () => String(++writes));
+    file.flush();
+    expect(existsSync(path)).toBe(false);
+    file.schedule();
+    file.flush();
+    file.flush();
+    expect(readFileSync(path, "utf-8")).toBe("1");
+  });
+
+  it("keeps a flush's snapshot over an async write that was still in flight", async () => {
+    vi.useFakeTimers();
+    dir = mkdtempSync(join(tmpdir(), "claude-status-"));
+    const path = join(dir, "state.json");
+    let value = 1;
+    const file = new JsonFile(path, () => String(value));
+
+    file.schedule();
+    await vi.advanceTimersByTimeAsync(PERSIST_DELAY_MS);  // async write of "1" started, not finished
+    value = 2;
+    file.schedule();
+    file.flush();
+    await file.idle();
+
+    expect(readFileSync(path, "utf-8")).toBe("2");
+    expect(readdirSync(dir)).toEqual(["state.json"]);
+  });
+});
+
+describe("migrate", () => {
+  const migrations = {
+    1: ({ old, ...rest }: Record<string, unknown>) => ({ ...rest, renamed: old }),
+    2: (data: Record<string, unknown>) => ({ ...data, added: true }),
+  };
+
+  it("runs every migration from the file's version (1 without a version field)", () => {
+    expect(migrate({ old: "x" }, 3, migrations)).toEqual({ renamed: "x", added: true, version: 3 });
+    expect(migrate({ version: 2, renamed: "y" }, 3, migrations)).toEqual({ renamed: "y", added: true, version: 3 });
+    expect(migrate({ version: 3, renamed: "z" }, 3, migrations)).toEqual({ renamed: "z", version: 3 });
+  });
+
+  it("rejects non-objects and newer versions", () => {
+    expect(migrate([], 3, migrations)).toBeUndefined();
+    expect(migrate("x", 3, migrations)).toBeUndefined();
+    expect(migrate({ version: 4 }, 3, migrations)).toBeUndefined();
+  });
+});
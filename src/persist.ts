@@ -0,0 +1,111 @@
+import { mkdirSync, renameSync, writeFileSync } from "node:fs";
+import { mkdir, rm, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+
+// Changes within this window are coalesced into one write
+export const PERSIST_DELAY_MS = 500;
+
+/**
+ * A JSON file written in the background: schedule() marks it dirty, and at most PERSIST_DELAY_MS later the
+ * latest `serialize()` is written atomically (temp file + rename: a crash leaves the old file or the new one,
+ * never a torn one). Writes run one at a time; flush() writes synchronously (exit).
+ * Every write has its own generation and temp file, and only renames over the file if no newer write has —
+ * so an async write still in flight when flush() runs can't land last with an older snapshot.
+ * Failures are ignored — persistence is best effort.
+ */
+export class JsonFile {
+  private timer: NodeJS.Timeout | undefined;
+  private dirty = false;
+  private writing: Promise<void> = Promise.resolve();
+  private generation = 0;  // last write started
+  private committed = 0;   // last write renamed over the file
+
+  constructor(
+    readonly path: string,
+    private readonly serialize: () => string,
+    private readonly delayMs: number = PERSIST_DELAY_MS,
+  ) {}
+
+  schedule(): void {
+    this.dirty = true;
+    if (this.timer) return;
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      void this.write();
+    }, this.delayMs);
+    this.timer.unref?.();
+  }
+
+  /** Resolves once every write started so far has finished. */
+  idle(): Promise<void> {
+    return this.writing;
+  }
+
+  flush(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    if (!this.dirty) return;
+    this.dirty = false;
+    const generation = ++this.generation;
+    const tmp = this.tempPath(generation);
+    try {
+      mkdirSync(dirname(this.path), { recursive: true });
+      writeFileSync(tmp, this.serialize());
+      renameSync(tmp, this.path);
+      this.committed = generation;
+    } catch {
+      // Non-critical — silently ignore persistence failures
+    }
+  }
+
+  // Serialized at write time, so changes made while waiting are included
+  private write(): Promise<void> {
+    this.writing = this.writing.then(async () => {
+      if (!this.dirty) return;
+      this.dirty = false;
+      const generation = ++this.generation;
+      const tmp = this.tempPath(generation);
+      try {
+        await mkdir(dirname(this.path), { recursive: true });
+        await writeFile(tmp, this.serialize());
+        // Checked and renamed in one synchronous step, so a flush() can't slip in between
+        if (generation < this.committed) {
+          await rm(tmp, { force: true });
+          return;
+        }
+        renameSync(tmp, this.path);
+        this.committed = generation;
+      } catch {
+        // Non-critical — silently ignore persistence failures
+      }
+    });
+    return this.writing;
+  }
+
+  private tempPath(generation: number): string {
+    return `${this.path}.${process.pid}-${generation}.tmp`;
+  }
+}
+
+export type Migration = (data: Record<string, unknown>) => Record<string, unknown>;
+
+/**
+ * Bring a parsed file up to `version`: `migrations[n]` turns version n into n + 1 (no `version` field = 1).
+ * Undefined for anything but an object, and for files written by a newer version.
+ */
+export const migrate = (
+  parsed: unknown,
+  version: number,
+  migrations: Readonly<Record<number, Migration>>,
+): Record<string, unknown> | undefined => {
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) return undefined;
+  let data = parsed as Record<string, unknown>;
+  let from = typeof data.version === "number" && Number.isInteger(data.version) ? data.version : 1;
+  if (from > version) return undefined;
+  for (; from < version; from++) {
+    const step = migrations[from];
+    if (!step) return undefined;
+    data = step(data);
+  }
+  return { ...data, version };
+};
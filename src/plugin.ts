@@ -1,35 +1,129 @@
 import streamDeck from "@elgato/streamdeck";
 import { SessionStore } from "./state";
+import { DecisionBroker } from "./decisions";
 import { ClaudeSession } from "./actions/claude-session";
 import { ClaudeSessionDial } from "./actions/claude-session-dial";
+import { ClaudeOverview } from "./actions/claude-overview";
 import { createServer } from "./server";
-import { MIN_SLOT, MAX_SLOT } from "./types";
+import type { ServerAuth } from "./server";
+import { loadOrCreateToken } from "./auth";
+import { createTerminal, setTerminal } from "./terminal";
+import { resolvePalette, setPalette } from "./theme";
+import { wakeTicker } from "./ticker";
+import { syncAnimation } from "./actions/animation";
+import { UsageTracker } from "./usage";
+import { parseRedactPatterns, setRedactPatterns } from "./redact";
+import type { GlobalSettings, SessionInfo } from "./types";
+import { MIN_SLOT, parseSlotCount, parseStaleTimeouts, parseTerminalKind } from "./types";
 
 // 1. Create store and restore persisted state
 const store = new SessionStore();
+const decisions = new DecisionBroker();
 const logger = streamDeck.logger.createScope("Plugin");
 const restored = store.loadFromDisk();
 if (restored > 0) {
   logger.info(`Restored ${restored} slot(s) from disk`);
 }
+store.history.loadFromDisk();
+// Stale-session watchdog: flags slots stuck in thinking/permission/compacting
+store.startWatchdog();
+
+// Token/cost totals, tail-read from each slot's transcript after every update
+const usage = new UsageTracker();
+const pollUsage = (slot: number, info: SessionInfo): void => {
+  const path = info.transcriptPath;
+  if (!path) return;
+  // Nothing appended → undefined, which ends the update → setUsage → update loop
+  void usage.poll(path, info.project).then((totals) => {
+    if (totals) store.setUsage(slot, path, totals);
+  });
+};
 
 // 2. Wire store to actions
 ClaudeSession.setStore(store);
 ClaudeSessionDial.setStore(store);
+ClaudeOverview.setStore(store);
+ClaudeSession.setDecisions(decisions);
+ClaudeSessionDial.setDecisions(decisions);
 
 // 3. Register actions
 streamDeck.actions.registerAction(new ClaudeSession());
 streamDeck.actions.registerAction(new ClaudeSessionDial());
+streamDeck.actions.registerAction(new ClaudeOverview());
 
 // 4. Subscribe to store updates -> push to all visible actions
 store.subscribe((slot, info) => {
   logger.info(`Store update: slot=${slot} state=${info.state}`);
   ClaudeSession.updateSlot(slot, info);
   ClaudeSessionDial.updateSlot(slot, info);
+  ClaudeOverview.refreshAll();
+  // Elapsed-time labels: the ticker stops itself once no visible slot is timed
+  wakeTicker();
+  // Spinner/blink frames run only while a visible slot is in an animated state
+  syncAnimation();
+  // A pane left permission (answered in the terminal, session ended) — release its blocked hook
+  decisions.releaseAnswered(slot, (target) => store.getPane(target.slot, target.session_id));
+  // Every pane of a split tab has its own transcript
+  for (const pane of store.getPanes(slot)) pollUsage(slot, pane);
 });
+// Catch up on transcripts of restored slots (GET /usage starts from these)
+for (let slot = MIN_SLOT; slot <= store.slotCount; slot++) {
+  for (const pane of store.getPanes(slot)) pollUsage(slot, pane);
+}
+
+// Pending permission decisions change the prompt text and gesture hints
+decisions.subscribe((target) => {
+  const slot = (target.session_id !== undefined ? store.resolveSlot(target.session_id) : undefined) ?? target.slot;
+  const info = store.get(slot);
+  ClaudeSession.updateSlot(slot, info);
+  ClaudeSessionDial.updateSlot(slot, info);
+});
+
+// 5. Start HTTP server (token shared with the hook and daemon via ~/.cache/claude-status/token)
+const auth: ServerAuth = { token: loadOrCreateToken(), anonymousStateRead: true };
+createServer(store, decisions, auth, usage);
 
-// 5. Start HTTP server
-createServer(store);
+// 6. Terminal backend, /state access, stale timeouts, redaction, slot count and theme follow global settings (changed live from the Property Inspector)
+const applyGlobalSettings = (settings: GlobalSettings): void => {
+  const kind = parseTerminalKind(settings.terminal);
+  // iTerm2 focuses the window and tab the daemon reported for the slot's session
+  setTerminal(createTerminal(kind, settings.terminalTarget || undefined, {
+    locate: (slot, sessionId) => store.locate(slot, sessionId),
+    resolveSlot: (sessionId) => store.resolveSlot(sessionId),
+  }));
+  logger.info(`Terminal backend: ${kind}`);
 
-// 6. Connect to Stream Deck
-streamDeck.connect();
+  auth.anonymousStateRead = settings.stateReadRequiresToken !== true;
+  store.setStaleTimeouts(parseStaleTimeouts(settings.staleTimeouts));
+  setRedactPatterns(parseRedactPatterns(settings.redactPatterns));
+
+  // Unset means "keep what was restored from disk"
+  if (settings.slotCount !== undefined && store.setSlotCount(parseSlotCount(settings.slotCount))) {
+    logger.info(`Slot count: ${store.slotCount}`);
+    ClaudeSession.refreshAll();
+    ClaudeSessionDial.refreshAll();
+    ClaudeOverview.refreshAll();
+    syncAnimation();
+  }
+
+  // Theme edits in the Property Inspector redraw every key and dial immediately
+  if (setPalette(resolvePalette(settings))) {
+    logger.info(`Theme: ${settings.theme ?? "default"}`);
+    ClaudeSession.refreshAll();
+    ClaudeSessionDial.refreshAll();
+    ClaudeOverview.refreshAll();
+  }
+};
+streamDeck.settings.onDidReceiveGlobalSettings<GlobalSettings>((ev) => applyGlobalSettings(ev.settings));
+
+// 7. State and history are written shortly after each change — write what's left when Stream Deck quits or restarts the plugin
+process.on("exit", () => {
+  store.flush();
+  store.history.flush();
+});
+for (const signal of ["SIGINT", "SIGTERM"] as const) process.once(signal, () => process.exit(0));
+
+// 8. Connect to Stream Deck
+void streamDeck.connect().then(async () => {
+  applyGlobalSettings(await streamDeck.settings.getGlobalSettings<GlobalSettings>());
+});
@@ -0,0 +1,36 @@
+import { describe, it, expect } from "vitest";
+import { matchesProject, rememberProject, RECENT_PROJECTS_MAX } from "./projects";
+
+const HOME = "/Users/me";
+
+describe("matchesProject", () => {
+  it("matches a plain path exactly, ignoring trailing slashes", () => {
+    expect(matchesProject("/Users/me/src/api", "/Users/me/src/api/", HOME)).toBe(true);
+    expect(matchesProject("~/src/api", "/Users/me/src/api", HOME)).toBe(true);
+    expect(matchesProject("~/src/api", "/Users/me/src/api-v2", HOME)).toBe(false);
+    expect(matchesProject("~/src/api", "/Users/me/src/api/sub", HOME)).toBe(false);
+  });
+
+  it("supports *, ** and ? wildcards", () => {
+    expect(matchesProject("~/work/*", "/Users/me/work/shop", HOME)).toBe(true);
+    expect(matchesProject("~/work/*", "/Users/me/work/shop/web", HOME)).toBe(false);
+    expect(matchesProject("~/work/**", "/Users/me/work/shop/web", HOME)).toBe(true);
+    expect(matchesProject("~/work/**", "/Users/me/work", HOME)).toBe(true);
+    expect(matchesProject("**/api", "/srv/app/api", HOME)).toBe(true);
+    expect(matchesProject("~/app-v?", "/Users/me/app-v2", HOME)).toBe(true);
+  });
+
+  it("treats regex characters literally and never matches without a project", () => {
+    expect(matchesProject("~/a.b", "/Users/me/axb", HOME)).toBe(false);
+    expect(matchesProject("~/a.b", undefined, HOME)).toBe(false);
+    expect(matchesProject("  ", "/Users/me", HOME)).toBe(false);
+  });
+});
+
+describe("rememberProject", () => {
+  it("keeps the most recent first without duplicates", () => {
+    expect(rememberProject(["/a", "/b"], "/b")).toEqual(["/b", "/a"]);
+    const many = Array.from({ length: RECENT_PROJECTS_MAX }, (_, i) => `/p${i}`);
+    expect(rememberProject(many, "/new")).toHaveLength(RECENT_PROJECTS_MAX);
+  });
+});
@@ -0,0 +1,43 @@
+import { homedir } from "node:os";
+
+// Recently seen projects offered by the Property Inspector's pinned-project field
+export const RECENT_PROJECTS_MAX = 20;
+
+const trimSlash = (path: string): string => (path.length > 1 ? path.replace(/\/+$/, "") : path);
+
+/**
+ * Pinned binding (`ActionSettings.project`) → RegExp over project paths. `~` is the home directory,
+ * `*` matches within one path segment, `**` across segments (a trailing `/**` also matches the directory
+ * itself), `?` one character. Without wildcards the path must match exactly. Trailing slashes are ignored.
+ */
+export const projectPattern = (pattern: string, home: string = homedir()): RegExp | undefined => {
+  const expanded = trimSlash(pattern.trim().replace(/^~(?=\/|$)/, home));
+  if (!expanded) return undefined;
+  const source = expanded
+    .split(/(\/\*\*$|\*\*|\*|\?)/)
+    .map((part) => {
+      switch (part) {
+        case "/**":
+          return "(?:/.*)?";
+        case "**":
+          return ".*";
+        case "*":
+          return "[^/]*";
+        case "?":
+          return "[^/]";
+        default:
+          return part.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+      }
+    })
+    .join("");
+  return new RegExp(`^${source}$`);
+};
+
+export const matchesProject = (pattern: string, project: string | undefined, home?: string): boolean => {
+  if (!project) return false;
+  return projectPattern(pattern, home)?.test(trimSlash(project)) ?? false;
+};
+
+/** Most recently seen first, without duplicates, at most RECENT_PROJECTS_MAX. */
+export const rememberProject = (recent: readonly string[], project: string): string[] =>
+  [project, ...recent.filter((p) => p !== project)].slice(0, RECENT_PROJECTS_MAX);
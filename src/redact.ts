@@ -0,0 +1,51 @@
+// Replaces whatever a redaction pattern matched
+export const REDACTED = "***";
+
+// Always applied: common credential shapes. Capture groups before the secret are kept.
+const BUILTIN: readonly { pattern: RegExp; replace: string }[] = [
+  // Anthropic / OpenAI style keys, GitHub tokens, AWS access key ids
+  { pattern: /\bsk-[A-Za-z0-9_-]{16,}/g, replace: REDACTED },
+  { pattern: /\bgh[pousr]_[A-Za-z0-9]{20,}/g, replace: REDACTED },
+  { pattern: /\bAKIA[0-9A-Z]{16}\b/g, replace: REDACTED },
+  // Authorization headers
+  { pattern: /\b(Bearer|Basic)\s+[A-Za-z0-9._~+/=-]+/gi, replace: `$1 ${REDACTED}` },
+  // KEY=value, token: value, --password=value
+  { pattern: /\b([A-Za-z0-9_-]*(?:api[_-]?key|token|secret|passw(?:or)?d|pwd)[A-Za-z0-9_]*)(\s*[=:]\s*)("[^"]*"|'[^']*'|\S+)/gi, replace: `$1$2${REDACTED}` },
+  // --password value
+  { pattern: /(--(?:password|token|secret|api-key)\s+)\S+/gi, replace: `$1${REDACTED}` },
+  // user:password@ in URLs
+  { pattern: /(\/\/[^/\s:@]+):[^@\s/]+@/g, replace: `$1:${REDACTED}@` },
+];
+
+// User patterns from global settings (`redactPatterns`), replaced on settings change
+let custom: RegExp[] = [];
+
+/** One regular expression per line (case-insensitive). Blank lines, invalid and empty-matching patterns are skipped. */
+export const parseRedactPatterns = (value: unknown): RegExp[] => {
+  if (typeof value !== "string") return [];
+  const patterns: RegExp[] = [];
+  for (const line of value.split("\n")) {
+    const source = line.trim();
+    if (!source) continue;
+    try {
+      const pattern = new RegExp(source, "gi");
+      // A pattern matching the empty string would mask between every character
+      if (!new RegExp(source, "i").test("")) patterns.push(pattern);
+    } catch {
+      // Invalid pattern — ignored rather than blocking every update
+    }
+  }
+  return patterns;
+};
+
+export const setRedactPatterns = (patterns: RegExp[]): void => {
+  custom = patterns;
+};
+
+/** Mask secrets before text reaches the deck, state.json or history. */
+export const redact = (text: string): string => {
+  let result = text;
+  for (const { pattern, replace } of BUILTIN) result = result.replace(pattern, replace);
+  for (const pattern of custom) result = result.replace(pattern, REDACTED);
+  return result;
+};
@@ -1,7 +1,20 @@
 import http from "node:http";
 import streamDeck from "@elgato/streamdeck";
 import type { SessionStore } from "./state";
-import { HTTP_HOST, HTTP_PORT, MAX_BODY_SIZE, MIN_SLOT, MAX_SLOT, isSessionState, isValidSessionId } from "./types";
+import type { DecisionBroker } from "./decisions";
+import { DECISION_TIMEOUT_MS, DECISION_TIMEOUT_MAX_MS } from "./decisions";
+import { isAuthorized } from "./auth";
+import { summarizeHistory } from "./history";
+import type { UsageTracker } from "./usage";
+import { totalUsage } from "./usage";
+import type { Todo } from "./todos";
+import { TODOS_MAX, parseTodos } from "./todos";
+import { parseToolInput, summarizeTool } from "./tools";
+import type { SubagentEvent } from "./subagents";
+import { redact } from "./redact";
+import type { MappingMessage } from "./mapping";
+import type { SessionLocation, SessionMapping } from "./types";
+import { HTTP_HOST, HTTP_PORT, MAX_BODY_SIZE, MIN_SLOT, MAX_SLOT_COUNT, isSessionState, isValidSessionId } from "./types";
 
 const logger = streamDeck.logger.createScope("HTTP");
 
@@ -46,8 +59,25 @@ type ValidatedUpdate = {
   project?: string;
   detail?: string;
   prompt?: string;
+  claude_session_id?: string;
+  transcript_path?: string;
+  model?: string;
+  permission_mode?: string;
+  todos?: Todo[];
+  agent_id?: string;
+  subagent?: SubagentEvent;
+  recoverable?: boolean;
 };
 
+// Length caps for the Claude context fields (hook stdin, forwarded verbatim)
+const MAX_TRANSCRIPT_PATH = 1024;
+const MAX_CONTEXT_FIELD = 128;
+// Display text caps, applied after summarizing and redaction (longer text is cut, not rejected)
+export const MAX_DETAIL = 200;
+export const MAX_PROMPT = 1000;
+
+const cap = (text: string, max: number): string => (text.length > max ? text.slice(0, max - 1) + "\u2026" : text);
+
 const validateUpdate = (
   body: unknown,
 ): { ok: true; data: ValidatedUpdate } | { ok: false; error: string } => {
@@ -60,8 +90,8 @@ const validateUpdate = (
   // slot (optional if session_id is provided)
   const slot = obj["slot"];
   const hasSlot = slot !== undefined;
-  if (hasSlot && (typeof slot !== "number" || !Number.isInteger(slot) || slot < MIN_SLOT || slot > MAX_SLOT)) {
-    return { ok: false, error: `slot must be integer ${MIN_SLOT}..${MAX_SLOT}` };
+  if (hasSlot && (typeof slot !== "number" || !Number.isInteger(slot) || slot < MIN_SLOT || slot > MAX_SLOT_COUNT)) {
+    return { ok: false, error: `slot must be integer ${MIN_SLOT}..${MAX_SLOT_COUNT}` };
   }
 
   // session_id (optional if slot is provided)
@@ -74,8 +104,8 @@ const validateUpdate = (
   // fallback_slot (optional — used when session_id can't be resolved)
   const fallbackSlot = obj["fallback_slot"];
   const hasFallbackSlot = fallbackSlot !== undefined;
-  if (hasFallbackSlot && (typeof fallbackSlot !== "number" || !Number.isInteger(fallbackSlot) || fallbackSlot < MIN_SLOT || fallbackSlot > MAX_SLOT)) {
-    return { ok: false, error: `fallback_slot must be integer ${MIN_SLOT}..${MAX_SLOT}` };
+  if (hasFallbackSlot && (typeof fallbackSlot !== "number" || !Number.isInteger(fallbackSlot) || fallbackSlot < MIN_SLOT || fallbackSlot > MAX_SLOT_COUNT)) {
+    return { ok: false, error: `fallback_slot must be integer ${MIN_SLOT}..${MAX_SLOT_COUNT}` };
   }
 
   // At least one of slot, session_id, or fallback_slot is required
@@ -102,16 +132,92 @@ const validateUpdate = (
   }
 
   // detail
-  const detail = obj["detail"];
-  if (detail !== undefined && typeof detail !== "string") {
+  const rawDetail = obj["detail"];
+  if (rawDetail !== undefined && typeof rawDetail !== "string") {
     return { ok: false, error: "detail must be a string" };
   }
 
+  // tool + tool_input → summarized detail ("Bash: npm test") when no explicit detail is given
+  const tool = obj["tool"];
+  if (tool !== undefined && (typeof tool !== "string" || tool.length === 0 || tool.length > MAX_CONTEXT_FIELD)) {
+    return { ok: false, error: `tool must be a non-empty string (max ${MAX_CONTEXT_FIELD} chars)` };
+  }
+  const rawToolInput = obj["tool_input"];
+  const toolInput = rawToolInput === undefined ? undefined : parseToolInput(rawToolInput);
+  if (rawToolInput !== undefined && toolInput === undefined) {
+    return { ok: false, error: "tool_input must be an object" };
+  }
+  const summary = rawDetail ?? (tool !== undefined ? summarizeTool(tool as string, toolInput) : undefined);
+  // Secrets are masked before the text is stored anywhere (deck, state.json, history)
+  const detail = summary !== undefined ? cap(redact(summary as string), MAX_DETAIL) : undefined;
+
   // prompt
-  const prompt = obj["prompt"];
-  if (prompt !== undefined && typeof prompt !== "string") {
+  const rawPrompt = obj["prompt"];
+  if (rawPrompt !== undefined && typeof rawPrompt !== "string") {
     return { ok: false, error: "prompt must be a string" };
   }
+  const prompt = rawPrompt !== undefined ? cap(redact(rawPrompt as string), MAX_PROMPT) : undefined;
+
+  // Claude context (all optional)
+  const claudeSessionId = obj["claude_session_id"];
+  if (claudeSessionId !== undefined && !isValidSessionId(claudeSessionId)) {
+    return { ok: false, error: "claude_session_id must be a non-empty string (max 64 chars)" };
+  }
+
+  const transcriptPath = obj["transcript_path"];
+  if (transcriptPath !== undefined && (typeof transcriptPath !== "string" || transcriptPath.length > MAX_TRANSCRIPT_PATH)) {
+    return { ok: false, error: `transcript_path must be a string (max ${MAX_TRANSCRIPT_PATH} chars)` };
+  }
+
+  const model = obj["model"];
+  if (model !== undefined && (typeof model !== "string" || model.length > MAX_CONTEXT_FIELD)) {
+    return { ok: false, error: `model must be a string (max ${MAX_CONTEXT_FIELD} chars)` };
+  }
+
+  const permissionMode = obj["permission_mode"];
+  if (permissionMode !== undefined && (typeof permissionMode !== "string" || permissionMode.length > MAX_CONTEXT_FIELD)) {
+    return { ok: false, error: `permission_mode must be a string (max ${MAX_CONTEXT_FIELD} chars)` };
+  }
+
+  // todos (TodoWrite list)
+  const rawTodos = obj["todos"];
+  const todos = rawTodos === undefined ? undefined : parseTodos(rawTodos);
+  if (rawTodos !== undefined && todos === undefined) {
+    return { ok: false, error: `todos must be an array of up to ${TODOS_MAX} {content, status, activeForm?}` };
+  }
+
+  // agent_id (update from a subagent)
+  const agentId = obj["agent_id"];
+  if (agentId !== undefined && !isValidSessionId(agentId)) {
+    return { ok: false, error: "agent_id must be a non-empty string (max 64 chars)" };
+  }
+
+  // subagent ({event: "start" | "stop", id?, description?})
+  const rawSubagent = obj["subagent"];
+  let subagent: SubagentEvent | undefined;
+  if (rawSubagent !== undefined) {
+    const sub = typeof rawSubagent === "object" && rawSubagent !== null ? (rawSubagent as Record<string, unknown>) : {};
+    if (sub["event"] !== "start" && sub["event"] !== "stop") {
+      return { ok: false, error: 'subagent.event must be "start" or "stop"' };
+    }
+    if (sub["id"] !== undefined && !isValidSessionId(sub["id"])) {
+      return { ok: false, error: "subagent.id must be a non-empty string (max 64 chars)" };
+    }
+    if (sub["description"] !== undefined && typeof sub["description"] !== "string") {
+      return { ok: false, error: "subagent.description must be a string" };
+    }
+    subagent = {
+      event: sub["event"],
+      ...(sub["id"] !== undefined && { id: sub["id"] as string }),
+      ...(sub["description"] !== undefined && { description: cap(redact(sub["description"] as string), MAX_DETAIL) }),
+    };
+  }
+
+  // recoverable (error from a failed tool call — not sticky)
+  const recoverable = obj["recoverable"];
+  if (recoverable !== undefined && typeof recoverable !== "boolean") {
+    return { ok: false, error: "recoverable must be a boolean" };
+  }
 
   return {
     ok: true,
@@ -122,28 +228,146 @@ const validateUpdate = (
       state: state as string,
       ...(ts !== undefined && { ts: ts as number }),
       ...(project !== undefined && { project: project as string }),
-      ...(detail !== undefined && { detail: detail as string }),
-      ...(prompt !== undefined && { prompt: prompt as string }),
+      ...(detail !== undefined && { detail }),
+      ...(prompt !== undefined && { prompt }),
+      ...(claudeSessionId !== undefined && { claude_session_id: claudeSessionId as string }),
+      ...(transcriptPath !== undefined && { transcript_path: transcriptPath as string }),
+      ...(model !== undefined && { model: model as string }),
+      ...(permissionMode !== undefined && { permission_mode: permissionMode as string }),
+      ...(todos !== undefined && { todos }),
+      ...(agentId !== undefined && { agent_id: agentId as string }),
+      ...(subagent !== undefined && { subagent }),
+      ...(recoverable === true && { recoverable }),
+    },
+  };
+};
+
+type ValidatedDecisionRequest = {
+  slot?: number;
+  session_id?: string;
+  fallback_slot?: number;
+  ts?: number;
+  project?: string;
+  claude_session_id?: string;
+  transcript_path?: string;
+  model?: string;
+  permission_mode?: string;
+  tool: string;
+  command?: string;
+  timeout_ms?: number;
+};
+
+const validateDecisionRequest = (
+  body: unknown,
+): { ok: true; data: ValidatedDecisionRequest } | { ok: false; error: string } => {
+  if (typeof body !== "object" || body === null) {
+    return { ok: false, error: "body must be a JSON object" };
+  }
+
+  const obj = body as Record<string, unknown>;
+
+  // Slot binding, project and Claude context follow the same rules as POST /state
+  const binding = validateUpdate({ ...obj, state: "permission" });
+  if (!binding.ok) return binding;
+
+  const tool = obj["tool"];
+  if (typeof tool !== "string" || tool.length === 0) {
+    return { ok: false, error: "tool must be a non-empty string" };
+  }
+
+  const command = obj["command"];
+  if (command !== undefined && typeof command !== "string") {
+    return { ok: false, error: "command must be a string" };
+  }
+
+  const timeoutMs = obj["timeout_ms"];
+  if (
+    timeoutMs !== undefined &&
+    (typeof timeoutMs !== "number" || !Number.isInteger(timeoutMs) || timeoutMs < 0 || timeoutMs > DECISION_TIMEOUT_MAX_MS)
+  ) {
+    return { ok: false, error: `timeout_ms must be integer 0..${DECISION_TIMEOUT_MAX_MS}` };
+  }
+
+  const { slot, session_id, fallback_slot, ts, project, claude_session_id, transcript_path, model, permission_mode } = binding.data;
+  return {
+    ok: true,
+    data: {
+      ...(slot !== undefined && { slot }),
+      ...(session_id !== undefined && { session_id }),
+      ...(fallback_slot !== undefined && { fallback_slot }),
+      ...(ts !== undefined && { ts }),
+      ...(project !== undefined && { project }),
+      ...(claude_session_id !== undefined && { claude_session_id }),
+      ...(transcript_path !== undefined && { transcript_path }),
+      ...(model !== undefined && { model }),
+      ...(permission_mode !== undefined && { permission_mode }),
+      tool,
+      ...(command !== undefined && { command: command as string }),
+      ...(timeoutMs !== undefined && { timeout_ms: timeoutMs as number }),
+    },
+  };
+};
+
+// "Bash: npm test -- --watch" — shown on the deck as the permission prompt text. The full command
+// (not the summary): the person approving needs to see what runs. Redacted and capped like detail.
+const decisionLabel = (tool: string, command: string | undefined): string => {
+  const cmd = command?.replace(/\s+/g, " ").trim();
+  return cap(redact(cmd ? `${tool}: ${cmd}` : tool), MAX_DETAIL);
+};
+
+// One /sessions entry: { window_id, tab_index, tab_title?, pane_id? } (tab_title redacted + capped)
+const validateLocation = (
+  key: string,
+  value: Record<string, unknown>,
+): { ok: true; data: SessionLocation } | { ok: false; error: string } => {
+  const { window_id: windowId, tab_index: tabIndex, tab_title: tabTitle, pane_id: paneId } = value;
+  if (!isValidSessionId(windowId)) {
+    return { ok: false, error: `window_id for ${key} must be a non-empty string (max 64 chars)` };
+  }
+  // The daemon stops after MAX_SLOT_COUNT tabs across all windows
+  if (typeof tabIndex !== "number" || !Number.isInteger(tabIndex) || tabIndex < 0 || tabIndex >= MAX_SLOT_COUNT) {
+    return { ok: false, error: `tab_index for ${key} must be integer 0..${MAX_SLOT_COUNT - 1}` };
+  }
+  if (tabTitle !== undefined && typeof tabTitle !== "string") {
+    return { ok: false, error: `tab_title for ${key} must be a string` };
+  }
+  if (paneId !== undefined && !isValidSessionId(paneId)) {
+    return { ok: false, error: `pane_id for ${key} must be a non-empty string (max 64 chars)` };
+  }
+  return {
+    ok: true,
+    data: {
+      window_id: windowId,
+      tab_index: tabIndex,
+      ...(tabTitle !== undefined && { tab_title: cap(redact(tabTitle), MAX_CONTEXT_FIELD) }),
+      ...(paneId !== undefined && { pane_id: paneId }),
     },
   };
 };
 
 const validateMapping = (
   body: unknown,
-): { ok: true; data: Record<string, number> } | { ok: false; error: string } => {
+): { ok: true; data: SessionMapping } | { ok: false; error: string } => {
   if (typeof body !== "object" || body === null) {
     return { ok: false, error: "body must be a JSON object" };
   }
 
   const obj = body as Record<string, unknown>;
-  const mapping: Record<string, number> = {};
+  const mapping: SessionMapping = {};
 
   for (const [key, value] of Object.entries(obj)) {
     if (!isValidSessionId(key)) {
       return { ok: false, error: `invalid session_id key: ${key}` };
     }
-    if (typeof value !== "number" || !Number.isInteger(value) || value < MIN_SLOT || value > MAX_SLOT) {
-      return { ok: false, error: `slot for ${key} must be integer ${MIN_SLOT}..${MAX_SLOT}` };
+    // Location (window, tab, pane) — the store assigns the slot
+    if (typeof value === "object" && value !== null && !Array.isArray(value)) {
+      const location = validateLocation(key, value as Record<string, unknown>);
+      if (!location.ok) return location;
+      mapping[key] = location.data;
+      continue;
+    }
+    if (typeof value !== "number" || !Number.isInteger(value) || value < MIN_SLOT || value > MAX_SLOT_COUNT) {
+      return { ok: false, error: `slot for ${key} must be integer ${MIN_SLOT}..${MAX_SLOT_COUNT} or a location object` };
     }
     mapping[key] = value;
   }
@@ -151,6 +375,117 @@ const validateMapping = (
   return { ok: true, data: mapping };
 };
 
+/**
+ * Versioned /sessions body: { instance, started, seq, type: "full", sessions } or
+ * { instance, started, seq, type: "delta", add?, move?, remove? } (mappings validated like the legacy body).
+ */
+const validateMappingMessage = (
+  obj: Record<string, unknown>,
+): { ok: true; data: MappingMessage } | { ok: false; error: string } => {
+  const { instance, started, seq, type } = obj;
+  if (!isValidSessionId(instance)) {
+    return { ok: false, error: "instance must be a non-empty string (max 64 chars)" };
+  }
+  if (typeof started !== "number" || !Number.isFinite(started) || started < 0) {
+    return { ok: false, error: "started must be a non-negative number" };
+  }
+  if (typeof seq !== "number" || !Number.isSafeInteger(seq) || seq < 0) {
+    return { ok: false, error: "seq must be a non-negative integer" };
+  }
+
+  if (type === "full") {
+    const sessions = validateMapping(obj.sessions);
+    if (!sessions.ok) return { ok: false, error: `sessions: ${sessions.error}` };
+    return { ok: true, data: { instance, started, seq, type, sessions: sessions.data } };
+  }
+  if (type !== "delta") {
+    return { ok: false, error: 'type must be "full" or "delta"' };
+  }
+
+  const changes: { add?: SessionMapping; move?: SessionMapping } = {};
+  for (const field of ["add", "move"] as const) {
+    if (obj[field] === undefined) continue;
+    const result = validateMapping(obj[field]);
+    if (!result.ok) return { ok: false, error: `${field}: ${result.error}` };
+    changes[field] = result.data;
+  }
+  const { remove } = obj;
+  if (remove !== undefined && (!Array.isArray(remove) || !remove.every(isValidSessionId))) {
+    return { ok: false, error: "remove must be an array of session ids" };
+  }
+  return { ok: true, data: { instance, started, seq, type, ...changes, ...(remove !== undefined && { remove }) } };
+};
+
+// SSE comment line interval — keeps proxies and idle-timeouts from dropping the stream
+const SSE_KEEPALIVE_MS = 15_000;
+
+/**
+ * GET /events — Server-Sent Events stream.
+ * Sends a full snapshot on connect, then one event per slot change and per mapping change.
+ */
+const streamEvents = (
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  store: SessionStore,
+): void => {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+
+  const send = (event: string, data: unknown): void => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  send("snapshot", { slots: store.getAll(), mapping: store.getMapping() });
+
+  const unsubscribeSlot = store.subscribe((slot, info) => send("slot", { slot, info }));
+  const unsubscribeMapping = store.subscribeMapping((mapping) => send("mapping", { mapping }));
+  const keepAlive = setInterval(() => res.write(": keep-alive\n\n"), SSE_KEEPALIVE_MS);
+
+  let closed = false;
+  const cleanup = (): void => {
+    if (closed) return;
+    closed = true;
+    clearInterval(keepAlive);
+    unsubscribeSlot();
+    unsubscribeMapping();
+    logger.info("SSE client disconnected");
+  };
+  req.on("close", cleanup);
+  res.on("close", cleanup);
+  res.on("error", cleanup);
+  logger.info("SSE client connected");
+};
+
+// "/history?slot=3" → ["/history", "slot=3"]
+const splitTarget = (target: string): [string, string?] => {
+  const at = target.indexOf("?");
+  return at === -1 ? [target] : [target.slice(0, at), target.slice(at + 1)];
+};
+
+const validateHistoryQuery = (
+  params: URLSearchParams,
+): { ok: true; data: { slot: number } | { session_id: string } } | { ok: false; error: string } => {
+  const slot = params.get("slot");
+  const sessionId = params.get("session_id");
+  if ((slot === null) === (sessionId === null)) {
+    return { ok: false, error: "exactly one of slot or session_id is required" };
+  }
+  if (slot !== null) {
+    const n = Number(slot);
+    if (!Number.isInteger(n) || n < MIN_SLOT || n > MAX_SLOT_COUNT) {
+      return { ok: false, error: `slot must be integer ${MIN_SLOT}..${MAX_SLOT_COUNT}` };
+    }
+    return { ok: true, data: { slot: n } };
+  }
+  if (!isValidSessionId(sessionId)) {
+    return { ok: false, error: "session_id must be a non-empty string (max 64 chars)" };
+  }
+  return { ok: true, data: { session_id: sessionId } };
+};
+
 /** Parse and validate a JSON POST body. Returns parsed object or sends error response. */
 const parseJsonBody = async (
   req: http.IncomingMessage,
@@ -176,10 +511,29 @@ const parseJsonBody = async (
   }
 };
 
-export const createServer = (store: SessionStore): http.Server => {
+export type ServerAuth = {
+  token: string;
+  // GET /state without a token (read-only debug access). Mutable — follows global settings.
+  anonymousStateRead: boolean;
+};
+
+export const createServer = (
+  store: SessionStore,
+  decisions: DecisionBroker,
+  auth: ServerAuth,
+  usage: UsageTracker,
+): http.Server => {
   const server = http.createServer(async (req, res) => {
     const { method, url } = req;
 
+    // --- auth ---
+    const anonymousAllowed = auth.anonymousStateRead && method === "GET" && url === "/state";
+    if (!anonymousAllowed && !isAuthorized(req.headers.authorization, auth.token)) {
+      logger.warn(`Rejected unauthenticated ${method} ${url}`);
+      jsonResponse(res, 401, { ok: false, error: "unauthorized" });
+      return;
+    }
+
     // --- /state ---
     if (url === "/state") {
       // GET /state — debug endpoint
@@ -199,7 +553,7 @@ export const createServer = (store: SessionStore): http.Server => {
           return;
         }
 
-        store.update({
+        const outcome = store.update({
           slot: result.data.slot,
           session_id: result.data.session_id,
           fallback_slot: result.data.fallback_slot,
@@ -208,13 +562,104 @@ export const createServer = (store: SessionStore): http.Server => {
           project: result.data.project,
           detail: result.data.detail,
           prompt: result.data.prompt,
+          claude_session_id: result.data.claude_session_id,
+          transcript_path: result.data.transcript_path,
+          model: result.data.model,
+          permission_mode: result.data.permission_mode,
+          todos: result.data.todos,
+          agent_id: result.data.agent_id,
+          subagent: result.data.subagent,
+          recoverable: result.data.recoverable,
         });
 
         const id = result.data.slot !== undefined ? `Slot ${result.data.slot}` : `Session ${result.data.session_id}`;
-        logger.info(`${id}: ${result.data.state}`);
-        jsonResponse(res, 200, { ok: true });
+        const why = outcome.outcome === "rejected" ? ` (${outcome.reason})` : "";
+        logger.info(`${id}: ${result.data.state} → ${outcome.outcome}${why}`);
+        // A valid request always gets 200; what the store did with it is in `outcome`
+        jsonResponse(res, 200, { ok: true, ...outcome });
+        return;
+      }
+    }
+
+    // --- /decision ---
+    // POST /decision — long-poll from a blocking PermissionRequest hook.
+    // Answers allow/deny from the deck, or "ask" (fall back to the terminal prompt) on timeout.
+    if (url === "/decision" && method === "POST") {
+      const parsed = await parseJsonBody(req, res);
+      if (parsed === null) return;
+
+      const result = validateDecisionRequest(parsed);
+      if (!result.ok) {
+        jsonResponse(res, 400, { ok: false, error: result.error });
+        return;
+      }
+
+      const { tool, command, timeout_ms: timeoutMs } = result.data;
+      const outcome = store.update({
+        slot: result.data.slot,
+        session_id: result.data.session_id,
+        fallback_slot: result.data.fallback_slot,
+        state: "permission",
+        ts: result.data.ts,
+        project: result.data.project,
+        claude_session_id: result.data.claude_session_id,
+        transcript_path: result.data.transcript_path,
+        model: result.data.model,
+        permission_mode: result.data.permission_mode,
+        detail: decisionLabel(tool, command),
+      });
+
+      // Slot not showing the prompt (unmapped, out of range, unseen error) — nothing to answer from
+      if (outcome.outcome !== "applied" || outcome.state !== "permission") {
+        jsonResponse(res, 200, { ok: true, decision: "ask" });
+        return;
+      }
+      const { slot } = outcome;
+
+      // Hook gave up (curl timeout / Claude killed it) — release the slot
+      const abort = new AbortController();
+      res.on("close", () => {
+        if (!res.writableFinished) abort.abort();
+      });
+
+      logger.info(`Slot ${slot}: awaiting decision for ${tool}`);
+      // Keyed by the asking pane's session, so split panes prompting at once don't supersede each other
+      const target = { slot, session_id: result.data.session_id ?? store.shownSession(slot) };
+      const decision = await decisions.request(target, { tool, command }, timeoutMs ?? DECISION_TIMEOUT_MS, abort.signal);
+      logger.info(`Slot ${slot}: decision ${decision}`);
+      if (!res.destroyed) jsonResponse(res, 200, { ok: true, slot, decision });
+      return;
+    }
+
+    // --- /history ---
+    // GET /history?slot=N | ?session_id=UUID — transition timeline + per-state durations/counts
+    // Routed on the raw target: `new URL()` throws on malformed ones ("http://[") — URLSearchParams never does
+    const [pathname, query = ""] = splitTarget(url ?? "/");
+    if (pathname === "/history" && method === "GET") {
+      const result = validateHistoryQuery(new URLSearchParams(query));
+      if (!result.ok) {
+        jsonResponse(res, 400, { ok: false, error: result.error });
         return;
       }
+      const entries = "slot" in result.data
+        ? store.history.forSlot(result.data.slot)
+        : store.history.forSession(result.data.session_id);
+      jsonResponse(res, 200, { ok: true, data: { entries, summary: summarizeHistory(entries) } });
+      return;
+    }
+
+    // --- /usage ---
+    // GET /usage — token/cost totals per project over the transcripts read since the plugin started
+    if (url === "/usage" && method === "GET") {
+      const projects = usage.byProject();
+      jsonResponse(res, 200, { ok: true, data: { projects, total: totalUsage(Object.values(projects)) } });
+      return;
+    }
+
+    // --- /events ---
+    if (url === "/events" && method === "GET") {
+      streamEvents(req, res, store);
+      return;
     }
 
     // --- /sessions ---
@@ -224,15 +669,35 @@ export const createServer = (store: SessionStore): http.Server => {
         const parsed = await parseJsonBody(req, res);
         if (parsed === null) return;
 
+        // Versioned full sync / delta; answers applied, deferred, ignored (stale daemon) or resync
+        if (typeof parsed === "object" && parsed !== null && "instance" in parsed) {
+          const message = validateMappingMessage(parsed as Record<string, unknown>);
+          if (!message.ok) {
+            jsonResponse(res, 400, { ok: false, error: message.error });
+            return;
+          }
+          const { type, seq } = message.data;
+          const result = store.syncMapping(message.data);
+          const why = "reason" in result ? ` (${result.reason})` : "";
+          const size = result.outcome === "applied" ? `: ${Object.keys(result.mapping).length} sessions` : "";
+          logger.info(`Session mapping ${type} #${seq} → ${result.outcome}${why}${size}`);
+          // The rebuilt mapping stays here — the daemon only needs the outcome
+          jsonResponse(res, 200, { ok: true, outcome: result.outcome, ...("reason" in result && { reason: result.reason }), seq });
+          return;
+        }
+
+        // Legacy full snapshot: { session_id: slot | location }
         const result = validateMapping(parsed);
         if (!result.ok) {
           jsonResponse(res, 400, { ok: false, error: result.error });
           return;
         }
 
-        store.updateMapping(result.data);
-        logger.info(`Session mapping updated: ${Object.keys(result.data).length} sessions`);
-        jsonResponse(res, 200, { ok: true });
+        // Through MappingSync as a full sync: an empty first snapshot is deferred, and a versioned daemon wins
+        const outcome = store.syncLegacyMapping(result.data);
+        const why = "reason" in outcome ? ` (${outcome.reason})` : "";
+        logger.info(`Session mapping snapshot (${Object.keys(result.data).length} sessions) → ${outcome.outcome}${why}`);
+        jsonResponse(res, 200, { ok: true, outcome: outcome.outcome });
         return;
       }
     }
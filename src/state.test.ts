@@ -1,18 +1,25 @@
 import { describe, it, expect, vi } from "vitest";
-import { SessionStore } from "./state";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { SessionStore, STATE_VERSION } from "./state";
+import { HistoryLog } from "./history";
+
+// In memory only — the defaults would write history.json and state.json under ~/.cache/claude-status
+const memoryStore = (slotCount = 8): SessionStore => new SessionStore(slotCount, new HistoryLog(), undefined);
 
 describe("SessionStore", () => {
   // --- Basic operations ---
 
   it("initializes all 8 slots as offline", () => {
-    const store = new SessionStore();
+    const store = memoryStore();
     for (let slot = 1; slot <= 8; slot++) {
       expect(store.get(slot).state).toBe("offline");
     }
   });
 
   it("updates a slot and retrieves it", () => {
-    const store = new SessionStore();
+    const store = memoryStore();
     store.update({ slot: 1, state: "idle", project: "/repo" });
     const info = store.get(1);
     expect(info.state).toBe("idle");
@@ -20,7 +27,7 @@ describe("SessionStore", () => {
   });
 
   it("getAll returns all 8 slots", () => {
-    const store = new SessionStore();
+    const store = memoryStore();
     const all = store.getAll();
     expect(Object.keys(all)).toHaveLength(8);
   });
@@ -28,7 +35,7 @@ describe("SessionStore", () => {
   // --- Listener / subscribe ---
 
   it("notifies listeners on update", () => {
-    const store = new SessionStore();
+    const store = memoryStore();
     const listener = vi.fn();
     store.subscribe(listener);
     store.update({ slot: 3, state: "thinking" });
@@ -37,7 +44,7 @@ describe("SessionStore", () => {
   });
 
   it("unsubscribe stops notifications", () => {
-    const store = new SessionStore();
+    const store = memoryStore();
     const listener = vi.fn();
     const unsub = store.subscribe(listener);
     unsub();
@@ -48,14 +55,14 @@ describe("SessionStore", () => {
   // --- Out-of-order rejection ---
 
   it("rejects out-of-order updates (older timestamp)", () => {
-    const store = new SessionStore();
+    const store = memoryStore();
     store.update({ slot: 1, state: "idle", ts: 1000 });
     store.update({ slot: 1, state: "thinking", ts: 500 });
     expect(store.get(1).state).toBe("idle");
   });
 
   it("accepts same-timestamp updates", () => {
-    const store = new SessionStore();
+    const store = memoryStore();
     store.update({ slot: 1, state: "idle", ts: 1000 });
     store.update({ slot: 1, state: "thinking", ts: 1000 });
     expect(store.get(1).state).toBe("thinking");
@@ -64,28 +71,132 @@ describe("SessionStore", () => {
   // --- done → idle block ---
 
   it("blocks done → idle transition", () => {
-    const store = new SessionStore();
+    const store = memoryStore();
     store.update({ slot: 1, state: "done", ts: 100 });
     store.update({ slot: 1, state: "idle", ts: 200 });
     expect(store.get(1).state).toBe("done");
   });
 
   it("allows done → thinking transition", () => {
-    const store = new SessionStore();
+    const store = memoryStore();
     store.update({ slot: 1, state: "done", ts: 100 });
     store.update({ slot: 1, state: "thinking", ts: 200 });
     expect(store.get(1).state).toBe("thinking");
   });
 
   it("allows done → offline transition", () => {
-    const store = new SessionStore();
+    const store = memoryStore();
     store.update({ slot: 1, state: "done", ts: 100 });
     store.update({ slot: 1, state: "offline", ts: 200 });
     expect(store.get(1).state).toBe("offline");
   });
 
+  // --- Update outcome ---
+
+  it("returns applied with the resolved slot and stored state", () => {
+    const store = memoryStore();
+    store.updateMapping({ "sess-a": 4 });
+    expect(store.update({ session_id: "sess-a", state: "thinking", ts: 100 })).toEqual({ outcome: "applied", slot: 4, state: "thinking" });
+    expect(store.update({ slot: 4, state: "offline", ts: 200 })).toEqual({ outcome: "applied", slot: 4, state: "error" });
+  });
+
+  it("returns rejected with a reason", () => {
+    const store = memoryStore();
+    store.update({ slot: 1, state: "done", ts: 100 });
+    expect(store.update({ slot: 1, state: "idle", ts: 200 })).toEqual({ outcome: "rejected", slot: 1, reason: "done_blocks_idle" });
+    expect(store.update({ slot: 1, state: "thinking", ts: 50 })).toEqual({ outcome: "rejected", slot: 1, reason: "out_of_order" });
+    expect(store.update({ slot: 9, state: "thinking" })).toEqual({ outcome: "rejected", slot: 9, reason: "slot_out_of_range" });
+    expect(store.history.forSlot(1).map((e) => e.reason)).toEqual([undefined, "done_blocks_idle", "out_of_order"]);
+  });
+
+  it("returns buffered for an unmapped session_id", () => {
+    const store = memoryStore();
+    expect(store.update({ session_id: "sess-x", state: "thinking" })).toEqual({ outcome: "buffered", session_id: "sess-x" });
+  });
+
+  // --- error ---
+
+  it("keeps error until a new prompt arrives", () => {
+    const store = memoryStore();
+    store.update({ slot: 1, state: "error", ts: 100, detail: "API Error: overloaded" });
+    store.update({ slot: 1, state: "thinking", ts: 200, detail: "Read" });
+    store.update({ slot: 1, state: "offline", ts: 400 });
+    expect(store.get(1)).toMatchObject({ state: "error", detail: "API Error: overloaded" });
+
+    store.update({ slot: 1, state: "thinking", ts: 500, prompt: "try again" });
+    expect(store.get(1).state).toBe("thinking");
+  });
+
+  it("shows a permission prompt over an unseen error and clears tool failures on the next activity", () => {
+    const store = memoryStore();
+    store.update({ slot: 1, state: "error", ts: 100, detail: "Bash: Exit code 1", recoverable: true });
+    expect(store.update({ slot: 1, state: "thinking", ts: 200, detail: "Read" })).toMatchObject({ outcome: "applied" });
+
+    store.update({ slot: 1, state: "error", ts: 300, detail: "API Error: overloaded" });
+    expect(store.update({ slot: 1, state: "permission", ts: 400 })).toMatchObject({ outcome: "applied", state: "permission" });
+  });
+
+  it("replaces the error message with a newer error", () => {
+    const store = memoryStore();
+    store.update({ slot: 1, state: "error", ts: 100, detail: "first" });
+    store.update({ slot: 1, state: "error", ts: 200, detail: "second" });
+    expect(store.get(1).detail).toBe("second");
+  });
+
+  it("turns a session end mid-run into error", () => {
+    const store = memoryStore();
+    store.update({ slot: 1, state: "thinking", ts: 100 });
+    store.update({ slot: 1, state: "offline", ts: 200 });
+    expect(store.get(1)).toMatchObject({ state: "error", detail: "Session ended while thinking" });
+  });
+
+  it("acknowledge marks done, idle and error as seen, keeping state, project and prompt", () => {
+    const store = memoryStore();
+    store.update({ slot: 1, state: "done", ts: 100, project: "/repo", prompt: "fix it" });
+    expect(store.acknowledge(1, 150)).toBe("done");
+    expect(store.get(1)).toMatchObject({ state: "done", project: "/repo", prompt: "fix it", seenAt: 150 });
+    // Not a transition
+    expect(store.history.forSlot(1).map((e) => e.state)).toEqual(["done"]);
+    // Already seen — nothing new
+    expect(store.acknowledge(1)).toBeUndefined();
+  });
+
+  it("keeps seenAt across same-state updates and clears it on a transition", () => {
+    const store = memoryStore();
+    store.update({ slot: 1, state: "done", ts: 100 });
+    store.acknowledge(1, 150);
+    store.update({ slot: 1, state: "done", ts: 200 });
+    expect(store.get(1).seenAt).toBe(150);
+    store.update({ slot: 1, state: "thinking", ts: 300 });
+    expect(store.get(1).seenAt).toBeUndefined();
+  });
+
+  it("a seen error no longer blocks updates", () => {
+    const store = memoryStore();
+    store.update({ slot: 1, state: "error", ts: 100, detail: "boom" });
+    expect(store.acknowledge(1)).toBe("error");
+    expect(store.get(1)).toMatchObject({ state: "error", detail: "boom" });
+    store.update({ slot: 1, state: "idle", ts: 200 });
+    expect(store.get(1).state).toBe("idle");
+  });
+
+  it("acknowledge leaves active slots alone unless stale", () => {
+    const store = memoryStore();
+    store.setStaleTimeouts({ thinking: 1_000 });
+    store.update({ slot: 1, state: "thinking", ts: 100 });
+    expect(store.acknowledge(1)).toBeUndefined();
+    expect(store.get(1).seenAt).toBeUndefined();
+
+    store.checkStale(5_000);
+    expect(store.acknowledge(1, 5_000)).toBe("thinking");
+    // Resumes: the next update clears both flags
+    store.update({ slot: 1, state: "thinking", ts: 6_000 });
+    expect(store.get(1).stale).toBeUndefined();
+    expect(store.get(1).seenAt).toBeUndefined();
+  });
+
   it("does not block idle → idle (same-state update)", () => {
-    const store = new SessionStore();
+    const store = memoryStore();
     store.update({ slot: 1, state: "idle", ts: 100 });
     store.update({ slot: 1, state: "idle", ts: 200, project: "/new" });
     expect(store.get(1).state).toBe("idle");
@@ -93,7 +204,7 @@ describe("SessionStore", () => {
   });
 
   it("does not block thinking → idle", () => {
-    const store = new SessionStore();
+    const store = memoryStore();
     store.update({ slot: 1, state: "thinking", ts: 100 });
     store.update({ slot: 1, state: "idle", ts: 200 });
     expect(store.get(1).state).toBe("idle");
@@ -102,37 +213,125 @@ describe("SessionStore", () => {
   // --- Carry-forward rules ---
 
   it("carries forward project when not provided", () => {
-    const store = new SessionStore();
+    const store = memoryStore();
     store.update({ slot: 1, state: "idle", project: "/myproject" });
     store.update({ slot: 1, state: "thinking", ts: Date.now() + 1 });
     expect(store.get(1).project).toBe("/myproject");
   });
 
   it("carries forward prompt when not provided", () => {
-    const store = new SessionStore();
+    const store = memoryStore();
     store.update({ slot: 1, state: "thinking", prompt: "fix bug", ts: 100 });
     store.update({ slot: 1, state: "done", ts: 200 });
     expect(store.get(1).prompt).toBe("fix bug");
   });
 
+  it("carries forward the Claude context, replacing fields that are sent again", () => {
+    const store = memoryStore();
+    store.update({
+      slot: 1, state: "idle", ts: 100,
+      claude_session_id: "conv-1", transcript_path: "/t/conv-1.jsonl", model: "claude-opus", permission_mode: "default",
+    });
+    store.update({ slot: 1, state: "thinking", ts: 200, permission_mode: "plan" });
+    expect(store.get(1)).toMatchObject({
+      claudeSessionId: "conv-1", transcriptPath: "/t/conv-1.jsonl", model: "claude-opus", permissionMode: "plan",
+    });
+  });
+
+  it("keeps usage for the same transcript and drops it on a new one", () => {
+    const store = memoryStore();
+    const usage = { input: 1, output: 2, cacheWrite: 0, cacheRead: 0, cost: 0.1, models: {} };
+    store.update({ slot: 1, state: "thinking", ts: 100, transcript_path: "/t/a.jsonl" });
+    expect(store.setUsage(1, "/t/b.jsonl", usage)).toBe(false);
+    expect(store.setUsage(1, "/t/a.jsonl", usage)).toBe(true);
+    store.update({ slot: 1, state: "done", ts: 200, transcript_path: "/t/a.jsonl" });
+    expect(store.get(1).usage).toEqual(usage);
+    store.update({ slot: 1, state: "thinking", ts: 300, transcript_path: "/t/b.jsonl" });
+    expect(store.get(1).usage).toBeUndefined();
+  });
+
+  it("carries todos forward until a new list or another transcript", () => {
+    const store = memoryStore();
+    const todos = [{ content: "Write tests", status: "in_progress" as const }];
+    store.update({ slot: 1, state: "thinking", ts: 100, transcript_path: "/t/a.jsonl", todos });
+    store.update({ slot: 1, state: "done", ts: 200 });
+    expect(store.get(1).todos).toEqual(todos);
+    store.update({ slot: 1, state: "thinking", ts: 300, todos: [] });
+    expect(store.get(1).todos).toEqual([]);
+    store.update({ slot: 1, state: "thinking", ts: 400, todos, transcript_path: "/t/a.jsonl" });
+    store.update({ slot: 1, state: "thinking", ts: 500, transcript_path: "/t/b.jsonl" });
+    expect(store.get(1).todos).toBeUndefined();
+  });
+
+  it("tracks subagents without letting their activity overwrite the slot", () => {
+    const store = memoryStore();
+    store.update({ slot: 1, state: "thinking", ts: 100, detail: "Task: Explore", subagent: { event: "start", id: "toolu_1", description: "Explore" } });
+    store.update({ slot: 1, state: "permission", ts: 110, detail: "Bash: rm" });
+    // A subagent's tool call: the permission prompt and detail stay, the agent gets the detail
+    expect(store.update({ slot: 1, state: "thinking", ts: 120, agent_id: "ag-1", detail: "Grep: TODO" }))
+      .toEqual({ outcome: "applied", slot: 1, state: "permission" });
+    expect(store.get(1)).toMatchObject({ state: "permission", detail: "Bash: rm", ts: 120 });
+    expect(store.get(1).subagents).toMatchObject([{ id: "toolu_1", agentId: "ag-1", detail: "Grep: TODO" }]);
+    expect(store.history.forSlot(1).map((e) => e.state)).toEqual(["thinking", "permission"]);
+
+    store.update({ slot: 1, state: "thinking", ts: 130, agent_id: "ag-1", subagent: { event: "stop" } });
+    expect(store.get(1)).toMatchObject({ state: "permission" });
+    expect(store.get(1).subagents).toBeUndefined();
+  });
+
+  it("clears subagents when the session stops working", () => {
+    const store = memoryStore();
+    store.update({ slot: 1, state: "thinking", ts: 100, subagent: { event: "start", id: "toolu_1" } });
+    store.update({ slot: 1, state: "done", ts: 200 });
+    expect(store.get(1).subagents).toBeUndefined();
+  });
+
+  it("ignores a late SubagentStop or subagent activity after the session stopped", () => {
+    const store = memoryStore();
+    store.update({ slot: 1, state: "thinking", ts: 100, subagent: { event: "start", id: "toolu_1" } });
+    store.update({ slot: 1, state: "done", ts: 200 });
+    expect(store.update({ slot: 1, state: "thinking", ts: 210, agent_id: "ag-1", subagent: { event: "stop" } }))
+      .toEqual({ outcome: "applied", slot: 1, state: "done" });
+    store.update({ slot: 1, state: "thinking", ts: 220, agent_id: "ag-1", detail: "Grep: TODO" });
+    expect(store.get(1)).toMatchObject({ state: "done", ts: 200 });
+    expect(store.history.forSlot(1).map((e) => e.state)).toEqual(["thinking", "done"]);
+  });
+
   it("overwrites project when explicitly provided", () => {
-    const store = new SessionStore();
+    const store = memoryStore();
     store.update({ slot: 1, state: "idle", project: "/old", ts: 100 });
     store.update({ slot: 1, state: "thinking", project: "/new", ts: 200 });
     expect(store.get(1).project).toBe("/new");
   });
 
   it("does NOT carry forward detail (transient)", () => {
-    const store = new SessionStore();
+    const store = memoryStore();
     store.update({ slot: 1, state: "thinking", detail: "Bash", ts: 100 });
     store.update({ slot: 1, state: "thinking", ts: 200 });
     expect(store.get(1).detail).toBeUndefined();
   });
 
+  // --- State entry time (since) ---
+
+  it("keeps since across same-state updates", () => {
+    const store = memoryStore();
+    store.update({ slot: 1, state: "thinking", ts: 100 });
+    store.update({ slot: 1, state: "thinking", ts: 200, detail: "Bash" });
+    expect(store.get(1).since).toBe(100);
+    expect(store.get(1).ts).toBe(200);
+  });
+
+  it("resets since on a state change", () => {
+    const store = memoryStore();
+    store.update({ slot: 1, state: "thinking", ts: 100 });
+    store.update({ slot: 1, state: "permission", ts: 300 });
+    expect(store.get(1).since).toBe(300);
+  });
+
   // --- Slot boundaries ---
 
   it("slots are independent", () => {
-    const store = new SessionStore();
+    const store = memoryStore();
     store.update({ slot: 1, state: "idle", ts: 100 });
     store.update({ slot: 2, state: "thinking", ts: 100 });
     expect(store.get(1).state).toBe("idle");
@@ -141,7 +340,7 @@ describe("SessionStore", () => {
   });
 
   it("does not notify listener when update is rejected", () => {
-    const store = new SessionStore();
+    const store = memoryStore();
     store.update({ slot: 1, state: "done", ts: 100 });
     const listener = vi.fn();
     store.subscribe(listener);
@@ -152,27 +351,27 @@ describe("SessionStore", () => {
   // --- Session ID resolution ---
 
   it("resolves session_id to slot after mapping is set", () => {
-    const store = new SessionStore();
+    const store = memoryStore();
     store.updateMapping({ "abc-123": 1, "def-456": 2 });
     expect(store.resolveSlot("abc-123")).toBe(1);
     expect(store.resolveSlot("def-456")).toBe(2);
   });
 
   it("returns undefined for unknown session_id", () => {
-    const store = new SessionStore();
+    const store = memoryStore();
     store.updateMapping({ "abc-123": 1 });
     expect(store.resolveSlot("unknown")).toBeUndefined();
   });
 
   it("updates via session_id when mapping exists", () => {
-    const store = new SessionStore();
+    const store = memoryStore();
     store.updateMapping({ "abc-123": 2 });
     store.update({ session_id: "abc-123", state: "thinking", ts: 100 });
     expect(store.get(2).state).toBe("thinking");
   });
 
   it("buffers update when session_id has no mapping, replays on mapping arrival", () => {
-    const store = new SessionStore();
+    const store = memoryStore();
     const listener = vi.fn();
     store.subscribe(listener);
     store.update({ session_id: "unknown-id", state: "thinking", ts: 100 });
@@ -187,13 +386,13 @@ describe("SessionStore", () => {
   });
 
   it("uses fallback_slot when session_id has no mapping", () => {
-    const store = new SessionStore();
+    const store = memoryStore();
     store.update({ session_id: "unmapped", state: "idle", fallback_slot: 4, ts: 100 });
     expect(store.get(4).state).toBe("idle");
   });
 
   it("prefers session_id mapping over fallback_slot", () => {
-    const store = new SessionStore();
+    const store = memoryStore();
     store.updateMapping({ "mapped-id": 2 });
     store.update({ session_id: "mapped-id", state: "thinking", fallback_slot: 5, ts: 100 });
     // session_id resolves to slot 2, fallback_slot 5 is ignored
@@ -202,7 +401,7 @@ describe("SessionStore", () => {
   });
 
   it("does not overwrite occupied slot via fallback_slot", () => {
-    const store = new SessionStore();
+    const store = memoryStore();
     // sess-a occupies slot 2 via mapping
     store.updateMapping({ "sess-a": 2 });
     store.update({ session_id: "sess-a", state: "thinking", project: "/projA", ts: 100 });
@@ -214,7 +413,7 @@ describe("SessionStore", () => {
   });
 
   it("moves data from fallback_slot to real slot when mapping arrives", () => {
-    const store = new SessionStore();
+    const store = memoryStore();
     // Update lands on fallback_slot 2 (no mapping yet)
     store.update({ session_id: "sess-x", state: "thinking", project: "/proj", fallback_slot: 2, ts: 100 });
     expect(store.get(2).state).toBe("thinking");
@@ -227,7 +426,7 @@ describe("SessionStore", () => {
   });
 
   it("prefers explicit slot over session_id", () => {
-    const store = new SessionStore();
+    const store = memoryStore();
     store.updateMapping({ "abc-123": 2 });
     store.update({ slot: 5, session_id: "abc-123", state: "idle", ts: 100 });
     // slot 5 should be updated, not slot 2
@@ -238,7 +437,7 @@ describe("SessionStore", () => {
   // --- updateMapping: tab reorder ---
 
   it("moves data when session changes slot (tab reorder)", () => {
-    const store = new SessionStore();
+    const store = memoryStore();
     store.updateMapping({ "sess-a": 1, "sess-b": 2 });
     store.update({ session_id: "sess-a", state: "thinking", project: "/projA", ts: 100 });
     store.update({ session_id: "sess-b", state: "idle", project: "/projB", ts: 100 });
@@ -253,7 +452,7 @@ describe("SessionStore", () => {
   });
 
   it("sets old slot offline when session moves and old slot is unoccupied", () => {
-    const store = new SessionStore();
+    const store = memoryStore();
     store.updateMapping({ "sess-a": 1 });
     store.update({ session_id: "sess-a", state: "thinking", ts: 100 });
 
@@ -267,7 +466,7 @@ describe("SessionStore", () => {
   // --- updateMapping: tab close ---
 
   it("sets slot offline when session disappears (tab closed)", () => {
-    const store = new SessionStore();
+    const store = memoryStore();
     store.updateMapping({ "sess-a": 1, "sess-b": 2 });
     store.update({ session_id: "sess-a", state: "idle", ts: 100 });
     store.update({ session_id: "sess-b", state: "thinking", ts: 100 });
@@ -279,8 +478,121 @@ describe("SessionStore", () => {
     expect(store.get(2).state).toBe("offline");
   });
 
+  // --- Split panes ---
+
+  it("keeps per-pane state in a split tab and shows the most urgent pane", () => {
+    const store = memoryStore();
+    store.updateMapping({ "pane-a": 1, "pane-b": 1 });
+    store.update({ session_id: "pane-a", state: "thinking", project: "/projA", ts: 100 });
+    store.update({ session_id: "pane-b", state: "permission", project: "/projB", ts: 110 });
+    // pane-a keeps working — does not clobber pane-b's permission prompt
+    store.update({ session_id: "pane-a", state: "thinking", detail: "Bash: ls", ts: 120 });
+
+    expect(store.get(1)).toMatchObject({ state: "permission", project: "/projB" });
+    expect(store.getPanes(1).map((info) => [info.state, info.project])).toEqual([
+      ["thinking", "/projA"],
+      ["permission", "/projB"],
+    ]);
+  });
+
+  it("acknowledges the pane on display, then shows the next one", () => {
+    const store = memoryStore();
+    store.updateMapping({ "pane-a": 1, "pane-b": 1 });
+    store.update({ session_id: "pane-a", state: "done", ts: 100 });
+    store.update({ session_id: "pane-b", state: "error", detail: "boom", ts: 110 });
+    expect(store.acknowledge(1, 200)).toBe("error");
+    expect(store.get(1).state).toBe("done");
+    expect(store.acknowledge(1, 210)).toBe("done");
+    expect(store.getPanes(1).every((info) => info.seenAt !== undefined)).toBe(true);
+  });
+
+  it("acknowledges and locates a chosen pane instead of the one on display", () => {
+    const store = memoryStore();
+    store.updateMapping({
+      "pane-a": { window_id: "w1", tab_index: 0, pane_id: "p0" },
+      "pane-b": { window_id: "w1", tab_index: 0, pane_id: "p1" },
+    });
+    store.update({ session_id: "pane-a", state: "done", ts: 100 });
+    store.update({ session_id: "pane-b", state: "error", detail: "boom", ts: 110 });
+    expect(store.shownSession(1)).toBe("pane-b");
+    expect(store.paneSessions(1)).toEqual(["pane-a", "pane-b"]);
+
+    // Dial rotated to "1.1": the done pane is acknowledged, the error stays unseen
+    expect(store.acknowledge(1, 200, "pane-a")).toBe("done");
+    expect(store.getPanes(1).map((info) => info.seenAt)).toEqual([200, undefined]);
+    expect(store.locate(1, "pane-a")).toMatchObject({ session_id: "pane-a", pane_id: "p0" });
+    expect(store.locate(1)).toMatchObject({ session_id: "pane-b" });
+  });
+
+  it("moves all panes of a tab together and drops closed panes", () => {
+    const store = memoryStore();
+    store.updateMapping({ "pane-a": 1, "pane-b": 1, "sess-c": 2 });
+    store.update({ session_id: "pane-a", state: "thinking", ts: 100 });
+    store.update({ session_id: "pane-b", state: "idle", ts: 100 });
+    store.update({ session_id: "sess-c", state: "done", ts: 100 });
+
+    // Swap tabs
+    store.updateMapping({ "pane-a": 2, "pane-b": 2, "sess-c": 1 });
+    expect(store.getPanes(2).map((info) => info.state)).toEqual(["thinking", "idle"]);
+    expect(store.get(1).state).toBe("done");
+
+    // Close the thinking pane — the slot falls back to the remaining one
+    store.updateMapping({ "pane-b": 2, "sess-c": 1 });
+    expect(store.get(2).state).toBe("idle");
+    expect(store.getPanes(2)).toHaveLength(1);
+  });
+
+  // --- Multi-window mapping ---
+
+  it("assigns slots across windows and keeps them when another window comes first", () => {
+    const store = memoryStore();
+    store.updateMapping({
+      "sess-a": { window_id: "w1", tab_index: 0 },
+      "sess-b": { window_id: "w1", tab_index: 1 },
+      "sess-c": { window_id: "w2", tab_index: 0, tab_title: "api", pane_id: "w1t0p0" },
+    });
+    store.update({ session_id: "sess-c", state: "thinking", ts: 100 });
+    expect(store.get(3).state).toBe("thinking");
+
+    // Focus moved to the second window — the daemon reports it first; slots stay put
+    store.updateMapping({
+      "sess-c": { window_id: "w2", tab_index: 0, tab_title: "api", pane_id: "w0t0p0" },
+      "sess-a": { window_id: "w1", tab_index: 0 },
+      "sess-b": { window_id: "w1", tab_index: 1 },
+    });
+    expect(store.resolveSlot("sess-c")).toBe(3);
+    expect(store.get(3).state).toBe("thinking");
+    expect(store.locate(3)).toEqual({ session_id: "sess-c", window_id: "w2", tab_index: 0, tab_title: "api", pane_id: "w0t0p0" });
+    expect(store.locate(4)).toBeUndefined();
+  });
+
+  // --- Pinned projects ---
+
+  it("finds a pinned project wherever its tab sits", () => {
+    const store = memoryStore();
+    store.updateMapping({ "sess-a": 1, "sess-b": 2 });
+    store.update({ session_id: "sess-a", state: "thinking", project: "/work/api", ts: 100 });
+    store.update({ session_id: "sess-b", state: "idle", project: "/work/web", ts: 100 });
+    expect(store.findProject("/work/api")).toMatchObject({ slot: 1, info: { state: "thinking" } });
+
+    store.updateMapping({ "sess-a": 2, "sess-b": 1 });
+    expect(store.findProject("/work/api")?.slot).toBe(2);
+    // Several matches: the most urgent one
+    store.update({ session_id: "sess-b", state: "permission", ts: 200 });
+    expect(store.findProject("/work/*")).toMatchObject({ slot: 1, info: { project: "/work/web" } });
+    expect(store.findProject("/other")).toBeUndefined();
+  });
+
+  it("remembers recently seen projects, most recent first", () => {
+    const store = memoryStore();
+    store.update({ slot: 1, state: "idle", project: "/a", ts: 100 });
+    store.update({ slot: 2, state: "idle", project: "/b", ts: 100 });
+    store.update({ slot: 1, state: "thinking", ts: 200 });
+    expect(store.recentProjects()).toEqual(["/a", "/b"]);
+  });
+
   it("notifies listeners on mapping-triggered changes", () => {
-    const store = new SessionStore();
+    const store = memoryStore();
     store.updateMapping({ "sess-a": 1 });
     store.update({ session_id: "sess-a", state: "thinking", ts: 100 });
 
@@ -294,10 +606,277 @@ describe("SessionStore", () => {
   });
 
   it("ignores mapping entries with out-of-range slots", () => {
-    const store = new SessionStore();
+    const store = memoryStore();
     store.updateMapping({ "sess-a": 0, "sess-b": 9, "sess-c": 3 });
     expect(store.resolveSlot("sess-a")).toBeUndefined();
     expect(store.resolveSlot("sess-b")).toBeUndefined();
     expect(store.resolveSlot("sess-c")).toBe(3);
   });
+
+  // --- Mapping subscriptions ---
+
+  it("notifies mapping listeners when the mapping changes", () => {
+    const store = memoryStore();
+    const listener = vi.fn();
+    store.subscribeMapping(listener);
+    store.updateMapping({ "sess-a": 1 });
+    expect(listener).toHaveBeenCalledOnce();
+    expect(listener).toHaveBeenCalledWith({ "sess-a": 1 });
+    expect(store.getMapping()).toEqual({ "sess-a": 1 });
+  });
+
+  it("does not notify mapping listeners for an identical resend (heartbeat)", () => {
+    const store = memoryStore();
+    store.updateMapping({ "sess-a": 1, "sess-b": 2 });
+    const listener = vi.fn();
+    store.subscribeMapping(listener);
+    store.updateMapping({ "sess-b": 2, "sess-a": 1 });
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it("unsubscribeMapping stops mapping notifications", () => {
+    const store = memoryStore();
+    const listener = vi.fn();
+    const unsub = store.subscribeMapping(listener);
+    unsub();
+    store.updateMapping({ "sess-a": 1 });
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  // --- Slot count ---
+
+  it("supports a configurable slot count", () => {
+    const store = memoryStore(16);
+    expect(store.slotCount).toBe(16);
+    expect(Object.keys(store.getAll())).toHaveLength(16);
+    store.update({ slot: 12, state: "thinking", ts: 100 });
+    expect(store.get(12).state).toBe("thinking");
+  });
+
+  it("drops updates for slots beyond the slot count", () => {
+    const store = memoryStore();
+    const listener = vi.fn();
+    store.subscribe(listener);
+    store.update({ slot: 9, state: "thinking", ts: 100 });
+    expect(listener).not.toHaveBeenCalled();
+    expect(Object.keys(store.getAll())).toHaveLength(8);
+  });
+
+  it("ignores a fallback_slot beyond the slot count", () => {
+    const store = memoryStore();
+    store.update({ session_id: "sess-a", state: "idle", fallback_slot: 12, ts: 100 });
+    expect(store.resolveSlot("sess-a")).toBeUndefined();
+  });
+
+  it("grows and shrinks with setSlotCount", () => {
+    const store = memoryStore();
+    expect(store.setSlotCount(16)).toBe(true);
+    store.updateMapping({ "sess-a": 14 });
+    store.update({ session_id: "sess-a", state: "thinking", ts: 100 });
+    expect(store.get(14).state).toBe("thinking");
+
+    expect(store.setSlotCount(8)).toBe(true);
+    expect(Object.keys(store.getAll())).toHaveLength(8);
+    expect(store.resolveSlot("sess-a")).toBeUndefined();
+    expect(store.setSlotCount(8)).toBe(false);
+  });
+
+  it("accepts mapping entries up to the slot count", () => {
+    const store = memoryStore(12);
+    store.updateMapping({ "sess-a": 12, "sess-b": 13 });
+    expect(store.resolveSlot("sess-a")).toBe(12);
+    expect(store.resolveSlot("sess-b")).toBeUndefined();
+  });
+
+  // --- History ---
+
+  it("history records accepted and rejected transitions", () => {
+    const store = memoryStore();
+    store.update({ slot: 1, state: "done", ts: 100 });
+    store.update({ slot: 1, state: "idle", ts: 200 });  // blocked
+    store.update({ slot: 1, state: "thinking", ts: 50 }); // out of order
+    expect(store.history.forSlot(1).map((e) => [e.state, e.rejected])).toEqual([
+      ["done", false],
+      ["idle", true],
+      ["thinking", true],
+    ]);
+  });
+
+  it("history records by session_id and logs tab close as offline", () => {
+    const store = memoryStore();
+    store.updateMapping({ "sess-a": 2 });
+    store.update({ session_id: "sess-a", state: "thinking", ts: 100, detail: "Bash" });
+    store.updateMapping({});
+    expect(store.history.forSession("sess-a").map((e) => e.state)).toEqual(["thinking", "offline"]);
+    expect(store.history.forSession("sess-a")[0]!.detail).toBe("Bash");
+  });
+
+  // --- Stale watchdog ---
+
+  it("flags a slot stale after its state's timeout and clears it on the next update", () => {
+    const store = memoryStore();
+    store.setStaleTimeouts({ thinking: 60_000 });
+    const listener = vi.fn();
+    store.subscribe(listener);
+    store.update({ slot: 1, state: "thinking", ts: 1_000 });
+
+    expect(store.checkStale(61_000)).toEqual([]);
+    expect(store.checkStale(61_001)).toEqual([1]);
+    expect(store.get(1).stale).toBe(true);
+    expect(listener).toHaveBeenLastCalledWith(1, expect.objectContaining({ state: "thinking", stale: true }));
+    // Already flagged — no repeat notification
+    expect(store.checkStale(90_000)).toEqual([]);
+
+    store.update({ slot: 1, state: "thinking", ts: 95_000 });
+    expect(store.get(1).stale).toBeUndefined();
+    // Watchdog flag is not a transition
+    expect(store.history.forSlot(1).map((e) => e.state)).toEqual(["thinking", "thinking"]);
+  });
+
+  it("never flags states without a timeout", () => {
+    const store = memoryStore();
+    store.setStaleTimeouts({ thinking: 60_000 });
+    store.update({ slot: 1, state: "done", ts: 1_000 });
+    expect(store.checkStale(10_000_000)).toEqual([]);
+  });
+
+  it("gives sessions reported by a live daemon a longer grace period", () => {
+    vi.useFakeTimers();
+    try {
+      vi.setSystemTime(100_000);
+      const store = memoryStore();
+      store.setStaleTimeouts({ thinking: 60_000 });
+      store.updateMapping({ "sess-a": 1 });
+      store.update({ session_id: "sess-a", state: "thinking", ts: 100_000 });
+      store.update({ slot: 2, state: "thinking", ts: 100_000 });
+
+      // Daemon heartbeat still fresh: slot 1 is confirmed alive, slot 2 (no daemon binding) is not
+      expect(store.checkStale(170_000)).toEqual([2]);
+      // Next heartbeat keeps it confirmed; stale only after 2× the timeout
+      vi.setSystemTime(200_000);
+      store.updateMapping({ "sess-a": 1 });
+      expect(store.checkStale(219_000)).toEqual([]);
+      expect(store.checkStale(220_001)).toEqual([1]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("drops the grace period once the daemon heartbeat lapses", () => {
+    vi.useFakeTimers();
+    try {
+      vi.setSystemTime(100_000);
+      const store = memoryStore();
+      store.setStaleTimeouts({ thinking: 100_000 });
+      store.updateMapping({ "sess-a": 1 });
+      store.update({ session_id: "sess-a", state: "thinking", ts: 100_000 });
+      // 150s without a mapping: daemon considered gone, plain timeout applies
+      expect(store.checkStale(250_000)).toEqual([1]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  // --- Versioned daemon protocol ---
+
+  it("applies legacy snapshots as full syncs and ignores them once a versioned daemon reports", () => {
+    const store = memoryStore();
+    expect(store.syncLegacyMapping({})).toEqual({ outcome: "deferred" });
+    store.syncLegacyMapping({ "sess-a": 1 });
+    store.update({ session_id: "sess-a", state: "idle" });
+    // Empty after earlier snapshots: every window was closed
+    expect(store.syncLegacyMapping({})).toEqual({ outcome: "applied", mapping: {} });
+    expect(store.get(1).state).toBe("offline");
+
+    store.syncMapping({ instance: "d", started: 100, seq: 1, type: "full", sessions: { "sess-b": 2 } });
+    store.update({ session_id: "sess-b", state: "thinking" });
+    expect(store.syncLegacyMapping({})).toMatchObject({ outcome: "ignored" });
+    expect(store.get(2).state).toBe("thinking");
+  });
+
+  it("keeps slots through a restarted daemon's empty first snapshot and ignores the old daemon", () => {
+    const store = memoryStore();
+    store.syncMapping({ instance: "old", started: 100, seq: 1, type: "full", sessions: { "sess-a": 1 } });
+    store.update({ session_id: "sess-a", state: "idle", project: "/repo" });
+
+    expect(store.syncMapping({ instance: "new", started: 200, seq: 1, type: "full", sessions: {} })).toEqual({ outcome: "deferred" });
+    expect(store.syncMapping({ instance: "old", started: 100, seq: 2, type: "full", sessions: {} })).toMatchObject({ outcome: "ignored" });
+    expect(store.get(1).state).toBe("idle");
+
+    store.syncMapping({ instance: "new", started: 200, seq: 2, type: "delta", add: { "sess-b": 2 } });
+    expect(store.get(1).state).toBe("offline");
+    expect(store.getMapping()).toEqual({ "sess-b": 2 });
+  });
+
+  it("reports the daemon offline after missed heartbeats and online again on its next message", () => {
+    vi.useFakeTimers();
+    try {
+      vi.setSystemTime(100_000);
+      const store = memoryStore();
+      expect(store.checkDaemon(1_000_000)).toBe(false);  // never seen: not "offline"
+      store.syncMapping({ instance: "d", started: 1, seq: 1, type: "full", sessions: { "sess-a": 1 } });
+
+      const notified: number[] = [];
+      store.subscribe((slot) => notified.push(slot));
+      expect(store.checkDaemon(190_000)).toBe(false);
+      expect(store.checkDaemon(190_001)).toBe(true);
+      expect(store.daemonOffline()).toBe(true);
+      expect(notified).toHaveLength(8);
+
+      // A repeated message changes nothing but still counts as a heartbeat
+      expect(store.syncMapping({ instance: "d", started: 1, seq: 1, type: "full", sessions: {} }, 200_000)).toMatchObject({ outcome: "ignored" });
+      expect(store.daemonOffline()).toBe(false);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  // --- Persistence ---
+
+  it("resumes the mapping, daemon sequence and buffered updates after a restart", () => {
+    const dir = mkdtempSync(join(tmpdir(), "claude-status-"));
+    try {
+      const file = join(dir, "state.json");
+      const store = new SessionStore(8, new HistoryLog(), file);
+      store.syncMapping({ instance: "d", started: 1, seq: 1, type: "full", sessions: { "sess-a": { window_id: "w1", tab_index: 1 } } });
+      store.update({ session_id: "sess-a", state: "done", project: "/repo" });
+      store.update({ session_id: "sess-b", state: "thinking" });  // not mapped yet: buffered
+      store.flush();
+      expect(JSON.parse(readFileSync(file, "utf-8")).version).toBe(STATE_VERSION);
+
+      const restored = new SessionStore(8, new HistoryLog(), file);
+      expect(restored.loadFromDisk()).toBe(1);
+      expect(restored.getMapping()).toEqual({ "sess-a": 2 });
+      expect(restored.locate(2)).toEqual({ session_id: "sess-a", window_id: "w1", tab_index: 1 });
+      // The daemon's next delta continues the sequence and replays the buffered update
+      expect(restored.syncMapping({ instance: "d", started: 1, seq: 2, type: "delta", add: { "sess-b": { window_id: "w1", tab_index: 0 } } }))
+        .toMatchObject({ outcome: "applied" });
+      expect(restored.get(1).state).toBe("thinking");
+      expect(restored.get(2).project).toBe("/repo");
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("migrates a state file without a version", () => {
+    const dir = mkdtempSync(join(tmpdir(), "claude-status-"));
+    try {
+      const file = join(dir, "state.json");
+      writeFileSync(file, JSON.stringify({
+        slotCount: 12,
+        1: { state: "done", ts: 1, project: "/old" },
+        2: { state: "idle", ts: 1 },
+        panes: { 2: { "sess-x": { state: "error", ts: 1, detail: "boom" } } },
+        recentProjects: ["/old"],
+      }));
+      const store = new SessionStore(8, new HistoryLog(), file);
+      expect(store.loadFromDisk()).toBe(2);
+      expect(store.slotCount).toBe(12);
+      expect(store.get(1).project).toBe("/old");
+      expect(store.getPanes(2)).toMatchObject([{ state: "error", detail: "boom" }]);
+      expect(store.recentProjects()).toEqual(["/old"]);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
 });
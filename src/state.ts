@@ -1,70 +1,249 @@
-import { writeFileSync, readFileSync, mkdirSync } from "node:fs";
+import { readFileSync } from "node:fs";
 import { join } from "node:path";
 import { homedir } from "node:os";
-import type { SessionInfo, SessionState, SessionMapping, StateUpdate } from "./types";
-import { MAX_SLOT, MIN_SLOT, isSessionState } from "./types";
+import type { LocatedSession, SessionInfo, SessionLocation, SessionState, SessionMapping, SlotMapping, StaleTimeouts, StateUpdate } from "./types";
+import { DEFAULT_SLOT_COUNT, DEFAULT_STALE_TIMEOUTS, MIN_SLOT, isSessionLocation, isSessionState, parseSlotCount } from "./types";
+import { HistoryLog } from "./history";
+import type { RejectReason } from "./transitions";
+import { evaluateTransition } from "./transitions";
+import type { SessionUsage } from "./usage";
+import { isSessionUsage } from "./usage";
+import { parseTodos } from "./todos";
+import { applySubagentUpdate } from "./subagents";
+import { mostUrgent } from "./attention";
+import { matchesProject, rememberProject } from "./projects";
+import { assignSlots } from "./windows";
+import type { MappingMessage, SyncOutcome } from "./mapping";
+import { MappingSync } from "./mapping";
+import type { Migration } from "./persist";
+import { JsonFile, migrate } from "./persist";
 
 export type SlotListener = (slot: number, info: SessionInfo) => void;
+export type MappingListener = (mapping: SlotMapping) => void;
+
+// What update() did with a state update (returned to POST /state callers)
+export type UpdateOutcome =
+  | { outcome: "applied"; slot: number; state: SessionState }  // state may differ from the request (rewrite rule)
+  | { outcome: "rejected"; slot?: number; reason: RejectReason }
+  | { outcome: "buffered"; session_id: string };               // waiting for the daemon mapping
 
 const defaultInfo = (): SessionInfo => ({ state: "offline", ts: 0 });
 
-const CACHE_DIR = join(homedir(), ".cache", "claude-status");
+// Pane key for updates without a session_id (explicit slot) and slots restored from an older state file
+const ANON_PANE = "";
+
+export const CACHE_DIR = join(homedir(), ".cache", "claude-status");
 const STATE_FILE = join(CACHE_DIR, "state.json");
+export const HISTORY_FILE = join(CACHE_DIR, "history.json");
+
+const isActive = (state: SessionState): boolean =>
+  state === "thinking" || state === "permission" || state === "compacting";
 
 // Active states are downgraded to idle on restore — session is alive but exact state unknown
-const restoreState = (state: SessionState): SessionState => {
-  if (state === "thinking" || state === "permission" || state === "compacting") return "idle";
-  return state;
+const restoreState = (state: SessionState): SessionState => (isActive(state) ? "idle" : state);
+
+const nonEmpty = <T>(list: T[]): T[] | undefined => (list.length > 0 ? list : undefined);
+
+/** One persisted slot/pane entry, or undefined if it's invalid or offline (no point restoring it). */
+const restoreInfo = (entry: unknown): SessionInfo | undefined => {
+  if (typeof entry !== "object" || entry === null) return undefined;
+  const e = entry as Record<string, unknown>;
+  if (!isSessionState(e.state)) return undefined;
+  const state = restoreState(e.state);
+  if (state === "offline") return undefined;
+  return {
+    state,
+    ts: typeof e.ts === "number" ? e.ts : 0,
+    project: typeof e.project === "string" ? e.project : undefined,
+    prompt: typeof e.prompt === "string" ? e.prompt : undefined,
+    claudeSessionId: typeof e.claudeSessionId === "string" ? e.claudeSessionId : undefined,
+    transcriptPath: typeof e.transcriptPath === "string" ? e.transcriptPath : undefined,
+    model: typeof e.model === "string" ? e.model : undefined,
+    permissionMode: typeof e.permissionMode === "string" ? e.permissionMode : undefined,
+    usage: isSessionUsage(e.usage) ? e.usage : undefined,
+    todos: parseTodos(e.todos),
+    // Keep the error message visible across a restart
+    detail: state === "error" && typeof e.detail === "string" ? e.detail : undefined,
+    seenAt: state === e.state && typeof e.seenAt === "number" ? e.seenAt : undefined,
+    recoverable: state === "error" && e.recoverable === true ? true : undefined,
+  };
+};
+
+// state.json schema — bump on incompatible changes and add a migration from the previous version
+export const STATE_VERSION = 2;
+
+const isRecord = (x: unknown): x is Record<string, unknown> => typeof x === "object" && x !== null && !Array.isArray(x);
+
+const STATE_MIGRATIONS: Record<number, Migration> = {
+  // 1 (no `version`): each slot's shown info at the top level, plus per-pane entries under `panes` once
+  // split panes were supported. 2: `panes` only (top-level entries become anonymous panes), `mapping`, `pending`.
+  1: ({ slotCount, panes, recentProjects, ...rest }) => {
+    const perPane = isRecord(panes) ? panes : {};
+    const slots: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(rest)) {
+      if (/^\d+$/.test(key)) slots[key] = perPane[key] ?? { [ANON_PANE]: entry };
+    }
+    return { slotCount, recentProjects, panes: { ...perPane, ...slots } };
+  },
 };
 
+// States a key/dial press marks as seen (stale slots can be acknowledged in any state)
+const ACKNOWLEDGEABLE = new Set<SessionState>(["done", "idle", "error"]);
+
 // Max buffered updates for unresolved session_ids (prevents memory leaks)
 const PENDING_MAX = 16;
 // Buffered updates expire after 30 seconds
 const PENDING_TTL_MS = 30_000;
 
+/** Restore a buffered update (see bufferPending) unless it's malformed or already past PENDING_TTL_MS. */
+const restorePending = (entry: unknown, now: number): StateUpdate | undefined => {
+  if (!isRecord(entry) || typeof entry.session_id !== "string" || !isSessionState(entry.state)) return undefined;
+  if (typeof entry.ts !== "number" || now - entry.ts > PENDING_TTL_MS) return undefined;
+  // Validated at HTTP ingress before it was buffered; only the todo list is re-checked like restoreInfo's
+  return { ...(entry as StateUpdate), todos: parseTodos(entry.todos) };
+};
+
+// Watchdog check interval
+export const STALE_CHECK_MS = 30_000;
+// The iTerm2 daemon re-sends its mapping every 30s; after three missed beats it counts as gone (daemonOffline)
+const DAEMON_HEARTBEAT_TIMEOUT_MS = 90_000;
+// A session whose tab the live daemon still reports gets this multiple of the stale timeout
+const CONFIRMED_GRACE = 2;
+
 export class SessionStore {
+  // slot number → the pane the slot shows (most urgent of `panes`)
   private readonly map: Map<number, SessionInfo>;
+  // slot number → per-pane state: every Claude session in the tab (split panes), keyed by session_id
+  private readonly panes = new Map<number, Map<string, SessionInfo>>();
   private readonly listeners: Set<SlotListener>;
-  // session_id (UUID) → slot number
+  private readonly mappingListeners = new Set<MappingListener>();
+  // session_id (UUID) → slot number — split panes share their tab's slot
   private readonly sessionSlotMap = new Map<string, number>();
-  // slot number → session_id (reverse lookup)
-  private readonly slotSessionMap = new Map<number, string>();
+  // session_id → window / tab / pane reported by the daemon, and windows in first-seen order (slot assignment)
+  private locations = new Map<string, SessionLocation>();
+  private windowOrder: string[] = [];
   // Buffered state updates for session_ids not yet in the mapping (race condition fix)
   private readonly pendingUpdates = new Map<string, StateUpdate>();
+  // Session ids in the last daemon mapping and when it arrived (daemon heartbeat)
+  private daemonSessions = new Set<string>();
+  private daemonSeenAt: number | undefined;
+  private daemonDown = false;
+  // Versioned daemon protocol: instance, sequence and the mapping rebuilt from full syncs + deltas
+  private readonly sync = new MappingSync();
+  private staleTimeouts: StaleTimeouts = { ...DEFAULT_STALE_TIMEOUTS };
+  // Projects seen in updates, most recent first (Property Inspector autocomplete for pinned keys)
+  private recent: string[] = [];
+
+  private count: number;
+  // Coalesced, atomic writes of state.json (undefined: not persisted)
+  private readonly out: JsonFile | undefined;
 
-  constructor() {
+  constructor(
+    slotCount: number = DEFAULT_SLOT_COUNT,
+    // Transition log per slot / session_id (GET /history)
+    readonly history: HistoryLog = new HistoryLog(HISTORY_FILE),
+    private readonly file: string | undefined = STATE_FILE,
+  ) {
+    this.out = file !== undefined ? new JsonFile(file, () => JSON.stringify(this.snapshot(), null, 2)) : undefined;
     this.map = new Map();
-    for (let slot = MIN_SLOT; slot <= MAX_SLOT; slot++) {
+    this.count = parseSlotCount(slotCount);
+    for (let slot = MIN_SLOT; slot <= this.count; slot++) {
       this.map.set(slot, defaultInfo());
     }
     this.listeners = new Set();
   }
 
-  /** Load persisted state from disk. Call before subscribing listeners. */
-  loadFromDisk(): number {
+  get slotCount(): number {
+    return this.count;
+  }
+
+  /**
+   * Resize the slot range (global setting). New slots start offline; slots beyond the new
+   * count are dropped along with their mapping entries. Returns true if the count changed.
+   */
+  setSlotCount(slotCount: number): boolean {
+    if (!this.resize(parseSlotCount(slotCount))) return false;
+    this.persist();
+    return true;
+  }
+
+  private resize(next: number): boolean {
+    if (next === this.count) return false;
+
+    for (let slot = this.count + 1; slot <= next; slot++) {
+      this.map.set(slot, defaultInfo());
+    }
+    for (let slot = next + 1; slot <= this.count; slot++) {
+      this.map.delete(slot);
+      this.panes.delete(slot);
+      for (const sessionId of this.sessionsIn(slot)) this.sessionSlotMap.delete(sessionId);
+    }
+    this.count = next;
+    return true;
+  }
+
+  private inRange(slot: number): boolean {
+    return slot >= MIN_SLOT && slot <= this.count;
+  }
+
+  /** Session ids the mapping places in `slot` (one per split pane). */
+  private sessionsIn(slot: number): string[] {
+    return [...this.sessionSlotMap].filter(([, s]) => s === slot).map(([sessionId]) => sessionId);
+  }
+
+  /**
+   * Load persisted state from disk (migrated to STATE_VERSION): slots and their panes, the session mapping,
+   * the daemon sequence and buffered updates still within their TTL. Call before subscribing listeners.
+   */
+  loadFromDisk(now: number = Date.now()): number {
+    if (this.file === undefined) return 0;
     let restored = 0;
     try {
-      const raw = readFileSync(STATE_FILE, "utf-8");
-      const parsed: unknown = JSON.parse(raw);
-      if (typeof parsed !== "object" || parsed === null) return 0;
-      const obj = parsed as Record<string, unknown>;
-      for (let slot = MIN_SLOT; slot <= MAX_SLOT; slot++) {
-        const entry = obj[String(slot)];
-        if (typeof entry !== "object" || entry === null) continue;
-        const e = entry as Record<string, unknown>;
-        if (!isSessionState(e.state)) continue;
-        const state = restoreState(e.state);
-        // Skip offline slots — no point restoring them
-        if (state === "offline") continue;
-        const info: SessionInfo = {
-          state,
-          ts: typeof e.ts === "number" ? e.ts : 0,
-          project: typeof e.project === "string" ? e.project : undefined,
-          prompt: typeof e.prompt === "string" ? e.prompt : undefined,
-        };
-        this.map.set(slot, info);
+      const obj = migrate(JSON.parse(readFileSync(this.file, "utf-8")), STATE_VERSION, STATE_MIGRATIONS);
+      // Unreadable, or written by a newer plugin — start fresh
+      if (!obj) return 0;
+      // Restore the slot count first so slots beyond the default survive a restart
+      // (global settings arrive only after connecting to Stream Deck)
+      if (obj.slotCount !== undefined) this.resize(parseSlotCount(obj.slotCount));
+      if (Array.isArray(obj.recentProjects)) {
+        for (const project of [...obj.recentProjects].reverse()) {
+          if (typeof project === "string") this.recent = rememberProject(this.recent, project);
+        }
+      }
+      const savedPanes = isRecord(obj.panes) ? obj.panes : {};
+      for (let slot = MIN_SLOT; slot <= this.count; slot++) {
+        const entries = savedPanes[String(slot)];
+        if (!isRecord(entries)) continue;
+        const panes = new Map<string, SessionInfo>();
+        for (const [key, entry] of Object.entries(entries)) {
+          const info = restoreInfo(entry);
+          if (info) panes.set(key, info);
+        }
+        if (panes.size === 0) continue;
+        this.panes.set(slot, panes);
+        this.render(slot);
         restored++;
       }
+
+      // Mapping as it was, so updates resolve before the daemon's next message
+      const mapping = isRecord(obj.mapping) ? obj.mapping : {};
+      for (const [sessionId, slot] of Object.entries(isRecord(mapping.slots) ? mapping.slots : {})) {
+        if (typeof slot === "number" && this.inRange(slot)) this.sessionSlotMap.set(sessionId, slot);
+      }
+      for (const [sessionId, location] of Object.entries(isRecord(mapping.locations) ? mapping.locations : {})) {
+        if (isSessionLocation(location)) this.locations.set(sessionId, location);
+      }
+      if (Array.isArray(mapping.windowOrder)) {
+        this.windowOrder = mapping.windowOrder.filter((id): id is string => typeof id === "string");
+      }
+      this.sync.restore(mapping.sync);
+
+      if (Array.isArray(obj.pending)) {
+        for (const entry of obj.pending.slice(-PENDING_MAX)) {
+          const update = restorePending(entry, now);
+          if (update?.session_id !== undefined) this.pendingUpdates.set(update.session_id, update);
+        }
+      }
     } catch {
       // File doesn't exist or is invalid — start fresh
     }
@@ -75,6 +254,46 @@ export class SessionStore {
     return this.map.get(slot) ?? defaultInfo();
   }
 
+  /** Every pane of a slot (split panes of one tab), in a stable order. Empty for a slot nothing has reported to. */
+  getPanes(slot: number): SessionInfo[] {
+    return this.sortedPanes(slot).map(([, info]) => info);
+  }
+
+  /** The session of each pane, in getPanes() order — undefined for a pane no session_id reported to. */
+  paneSessions(slot: number): Array<string | undefined> {
+    return this.sortedPanes(slot).map(([key]) => key || undefined);
+  }
+
+  /** The pane of `sessionId` in the slot (undefined once it left), or the pane on display without a session. */
+  getPane(slot: number, sessionId?: string): SessionInfo | undefined {
+    if (sessionId === undefined) return this.inRange(slot) ? this.get(slot) : undefined;
+    return this.panes.get(slot)?.get(sessionId);
+  }
+
+  /** The session of the pane the slot shows (see get()). */
+  shownSession(slot: number): string | undefined {
+    return this.shownPane(slot) || undefined;
+  }
+
+  /**
+   * Where a pinned key's project is open, wherever its tab sits: the most urgent pane whose project
+   * matches `pattern` (path or glob, see projectPattern) and its slot. Undefined while no session has it open.
+   */
+  findProject(pattern: string): { slot: number; info: SessionInfo; session_id?: string } | undefined {
+    const matches: Array<{ slot: number; info: SessionInfo; session_id?: string }> = [];
+    for (const [slot, panes] of this.panes) {
+      for (const [key, info] of panes) {
+        if (matchesProject(pattern, info.project)) matches.push({ slot, info, session_id: key || undefined });
+      }
+    }
+    return matches[mostUrgent(matches.map(({ info }) => info))];
+  }
+
+  /** Projects seen in updates, most recent first. */
+  recentProjects(): string[] {
+    return [...this.recent];
+  }
+
   getAll(): Record<number, SessionInfo> {
     const result: Record<number, SessionInfo> = {};
     for (const [slot, info] of this.map) {
@@ -90,124 +309,379 @@ export class SessionStore {
     };
   }
 
+  /** Subscribe to session→slot mapping changes. Not called when a resent mapping is identical. */
+  subscribeMapping(fn: MappingListener): () => void {
+    this.mappingListeners.add(fn);
+    return () => {
+      this.mappingListeners.delete(fn);
+    };
+  }
+
+  /** Current session→slot mapping (includes tentative fallback_slot registrations). */
+  getMapping(): SlotMapping {
+    return Object.fromEntries(this.sessionSlotMap);
+  }
+
   /** Resolve a session_id to a slot number via the mapping. */
   resolveSlot(sessionId: string): number | undefined {
     return this.sessionSlotMap.get(sessionId);
   }
 
+  /**
+   * Where the slot's session lives (iTerm2 window and tab): `sessionId` (a chosen pane) if it is in the slot,
+   * else the session of the pane on display, else any session the daemon reported in the slot.
+   * Undefined without a location (older daemon, other terminals).
+   */
+  locate(slot: number, sessionId?: string): LocatedSession | undefined {
+    const preferred = [sessionId, this.shownPane(slot)].filter((id): id is string => !!id);
+    for (const id of [...preferred, ...this.sessionsIn(slot)]) {
+      const location = this.sessionSlotMap.get(id) === slot ? this.locations.get(id) : undefined;
+      if (location) return { session_id: id, ...location };
+    }
+    return undefined;
+  }
+
   /**
    * Update the session→slot mapping (sent by iTerm2 Python daemon).
-   * Handles tab reorder (data moves with session) and tab close (old slot → offline).
+   * Sessions with a location get slots across all windows (assignSlots); plain numbers are taken as slots.
+   * Handles tab reorder (panes move with their session — all panes of a tab together) and
+   * tab/pane close (the pane is dropped; a slot left without sessions goes offline).
    */
   updateMapping(mapping: SessionMapping): void {
     const newSessionSlot = new Map<string, number>();
-    const newSlotSession = new Map<number, string>();
 
-    // Build new maps from incoming mapping
-    for (const [sessionId, slot] of Object.entries(mapping)) {
-      if (slot >= MIN_SLOT && slot <= MAX_SLOT) {
-        newSessionSlot.set(sessionId, slot);
-        newSlotSession.set(slot, sessionId);
-      }
+    const locations: Record<string, SessionLocation> = {};
+    const requested: SlotMapping = {};
+    for (const [sessionId, entry] of Object.entries(mapping)) {
+      if (typeof entry === "number") requested[sessionId] = entry;
+      else locations[sessionId] = entry;
     }
+    const assigned = assignSlots(locations, this.windowOrder);
+    this.windowOrder = assigned.windowOrder;
+    this.locations = new Map(Object.entries(locations));
 
-    // Snapshot data for sessions that moved (read before any writes)
-    const moves = new Map<number, SessionInfo>(); // newSlot → data to place there
-    const slotsToNotify = new Set<number>();
-
-    for (const [sessionId, newSlot] of newSessionSlot) {
-      const oldSlot = this.sessionSlotMap.get(sessionId);
-      if (oldSlot !== undefined && oldSlot !== newSlot) {
-        moves.set(newSlot, { ...this.get(oldSlot) });
-        slotsToNotify.add(newSlot);
-        // Old slot goes offline unless another session now occupies it
-        if (!newSlotSession.has(oldSlot)) {
-          moves.set(oldSlot, defaultInfo());
-          slotsToNotify.add(oldSlot);
-        }
-      }
+    // Build new map from incoming mapping
+    for (const [sessionId, slot] of Object.entries({ ...requested, ...assigned.slots })) {
+      if (this.inRange(slot)) newSessionSlot.set(sessionId, slot);
     }
+    const occupied = new Set(newSessionSlot.values());
 
-    // Detect sessions that disappeared (tab closed)
-    for (const [sessionId, oldSlot] of this.sessionSlotMap) {
-      if (!newSessionSlot.has(sessionId) && !newSlotSession.has(oldSlot)) {
-        moves.set(oldSlot, defaultInfo());
-        slotsToNotify.add(oldSlot);
+    // Working copies of the pane maps being changed (read before any writes)
+    const moved = new Map<number, Map<string, SessionInfo>>();
+    const edit = (slot: number): Map<string, SessionInfo> => {
+      let panes = moved.get(slot);
+      if (!panes) {
+        panes = new Map(this.panes.get(slot));
+        moved.set(slot, panes);
       }
+      return panes;
+    };
+
+    // Move each session's pane to its new slot; sessions that disappeared (tab or pane closed) drop theirs
+    const closed: Array<[string, number]> = [];
+    for (const [sessionId, oldSlot] of this.sessionSlotMap) {
+      const newSlot = newSessionSlot.get(sessionId);
+      if (newSlot === oldSlot) continue;
+      const from = edit(oldSlot);
+      const pane = from.get(sessionId);
+      from.delete(sessionId);
+      if (newSlot !== undefined && pane) edit(newSlot).set(sessionId, pane);
+      if (newSlot === undefined && pane) closed.push([sessionId, oldSlot]);
+    }
+    // Old slot goes offline unless another session now occupies it (drops panes without a session, too)
+    for (const [slot, panes] of moved) {
+      if (!occupied.has(slot)) panes.clear();
     }
 
     // Apply all moves atomically
-    for (const [slot, info] of moves) {
-      this.map.set(slot, info);
+    for (const [slot, panes] of moved) {
+      if (panes.size > 0) this.panes.set(slot, panes);
+      else this.panes.delete(slot);
+      this.render(slot);
     }
 
-    // Replace maps
+    const mappingChanged =
+      newSessionSlot.size !== this.sessionSlotMap.size ||
+      [...newSessionSlot].some(([sessionId, slot]) => this.sessionSlotMap.get(sessionId) !== slot);
+
+    // Replace map
     this.sessionSlotMap.clear();
-    this.slotSessionMap.clear();
     for (const [k, v] of newSessionSlot) this.sessionSlotMap.set(k, v);
-    for (const [k, v] of newSlotSession) this.slotSessionMap.set(k, v);
+    this.daemonSessions = new Set(newSessionSlot.keys());
+    const now = Date.now();
+    this.daemonSeenAt = now;
 
-    // Persist and notify after all state is consistent
-    if (slotsToNotify.size > 0) {
-      this.persist();
-      for (const slot of slotsToNotify) {
+    // Tab close ends the session's timeline
+    for (const [sessionId, slot] of closed) {
+      this.history.record({ slot, session_id: sessionId, state: "offline", ts: now, rejected: false });
+    }
+
+    // Persist (the mapping is saved, too) and notify after all state is consistent
+    this.persist();
+    if (moved.size > 0) {
+      for (const slot of moved.keys()) {
         this.notify(slot, this.get(slot));
       }
     }
+    if (mappingChanged) this.notifyMapping();
+    this.checkDaemon(now);
 
     // Replay any buffered updates that can now be resolved
     this.replayPending();
   }
 
-  update(update: StateUpdate): void {
+  /**
+   * Apply a versioned daemon message (full sync or delta, see MappingSync) and return what happened to it.
+   * Every message from the current daemon instance counts as a heartbeat, even one that changes nothing.
+   */
+  syncMapping(message: MappingMessage, now: number = Date.now()): SyncOutcome {
+    return this.applySync(this.sync.apply(message), now);
+  }
+
+  /**
+   * Apply an unversioned snapshot (older daemons) as a full sync, so it can't wipe slots with an empty first
+   * snapshot or overwrite a versioned daemon's mapping behind MappingSync's back (ignored once one is seen).
+   */
+  syncLegacyMapping(mapping: SessionMapping, now: number = Date.now()): SyncOutcome {
+    return this.applySync(this.sync.applyLegacy(mapping), now);
+  }
+
+  private applySync(result: SyncOutcome, now: number): SyncOutcome {
+    if (result.outcome === "ignored" && result.reason === "stale_instance") return result;
+    if (result.outcome === "applied") {
+      this.updateMapping(result.mapping);
+    } else {
+      this.daemonSeenAt = now;
+      this.checkDaemon(now);
+    }
+    // The sequence is saved, so a plugin restart continues it
+    this.persist();
+    return result;
+  }
+
+  /** True once a daemon has reported and then nothing arrived for DAEMON_HEARTBEAT_TIMEOUT_MS. */
+  daemonOffline(): boolean {
+    return this.daemonDown;
+  }
+
+  /**
+   * Daemon liveness pass (watchdog, and on every daemon message): when daemonOffline() flips,
+   * every slot is re-sent to listeners so keys can show or clear "daemon offline". Returns true if it flipped.
+   */
+  checkDaemon(now: number = Date.now()): boolean {
+    const down = this.daemonSeenAt !== undefined && now - this.daemonSeenAt > DAEMON_HEARTBEAT_TIMEOUT_MS;
+    if (down === this.daemonDown) return false;
+    this.daemonDown = down;
+    for (const slot of this.map.keys()) this.notify(slot, this.get(slot));
+    return true;
+  }
+
+  update(update: StateUpdate): UpdateOutcome {
     // Resolve slot: explicit slot > session_id mapping > fallback_slot
     let slot = update.slot;
     if (slot === undefined && update.session_id !== undefined) {
       slot = this.resolveSlot(update.session_id);
     }
-    if (slot === undefined && update.fallback_slot !== undefined) {
+    if (slot === undefined && update.fallback_slot !== undefined && this.inRange(update.fallback_slot)) {
       // Only use fallback if the slot is free or already belongs to this session
-      const existingSession = this.slotSessionMap.get(update.fallback_slot);
-      if (existingSession === undefined || existingSession === update.session_id) {
+      const existing = this.sessionsIn(update.fallback_slot);
+      if (existing.length === 0 || (update.session_id !== undefined && existing.includes(update.session_id))) {
         slot = update.fallback_slot;
         // Register as tentative mapping so updateMapping() can move data to the real slot later
-        if (update.session_id !== undefined) {
-          this.sessionSlotMap.set(update.session_id, slot);
-          this.slotSessionMap.set(slot, update.session_id);
-        }
+        if (update.session_id !== undefined) this.sessionSlotMap.set(update.session_id, slot);
       }
     }
     // Cannot determine slot — buffer if session_id present (daemon mapping may arrive later)
     if (slot === undefined) {
-      if (update.session_id !== undefined) {
-        this.bufferPending(update.session_id, update);
-      }
-      return;
+      if (update.session_id === undefined) return { outcome: "rejected", reason: "no_slot" };
+      this.bufferPending(update.session_id, update);
+      return { outcome: "buffered", session_id: update.session_id };
     }
 
+    // Slot beyond the configured slot count (e.g. a 12th tab with 8 slots) — drop
+    if (!this.inRange(slot)) return { outcome: "rejected", slot, reason: "slot_out_of_range" };
+
     const ts = update.ts ?? Date.now();
-    const current = this.get(slot);
+    // Each session updates its own pane; an update without session_id goes to the pane on display
+    const key = update.session_id ?? this.shownPane(slot) ?? ANON_PANE;
+    const current = this.pane(slot, key);
 
-    // Reject out-of-order updates
-    if (ts < current.ts) return;
+    // Subagent activity touches only the nested sub-session: no transition, so one agent's tool call can't
+    // overwrite the slot's state or detail (e.g. another agent's permission). Once the session has finished
+    // (done, idle, …) its subagents are gone — a late SubagentStop must not flip the pane back to thinking.
+    if (update.state === "thinking" && (update.agent_id !== undefined || update.subagent?.event === "stop")) {
+      if (ts < current.ts) return { outcome: "rejected", slot, reason: "out_of_order" };
+      if (!isActive(current.state)) return { outcome: "applied", slot, state: current.state };
+      const next: SessionInfo = { ...current, ts, subagents: nonEmpty(applySubagentUpdate(current.subagents ?? [], update, ts)) };
+      delete next.stale;
+      this.commit(slot, key, next);
+      return { outcome: "applied", slot, state: current.state };
+    }
 
-    // Block done → idle: done stays until thinking, offline, or error
-    if (current.state === "done" && update.state === "idle") return;
+    // Transition table (transitions.ts): done blocks idle, an unseen error not from a tool call is sticky,
+    // a session ending mid-run (crash, killed terminal) is rewritten to error
+    const transition = evaluateTransition(current, update.state, update);
+    const state: SessionState = transition.ok ? transition.state : update.state;
+    const crashed = state !== update.state;
+    const detail = crashed ? (update.detail ?? `Session ended while ${current.state}`) : update.detail;
 
-    const info: SessionInfo = {
-      state: update.state,
+    // Out-of-order updates are rejected before the table applies
+    const reason: RejectReason | undefined = ts < current.ts ? "out_of_order" : transition.ok ? undefined : transition.reason;
+    this.history.record({
+      slot,
+      session_id: update.session_id ?? (key || this.sessionsIn(slot)[0]),
+      state,
       ts,
+      detail,
+      prompt: update.prompt,
+      rejected: reason !== undefined,
+      ...(reason !== undefined && { reason }),
+    });
+    if (reason !== undefined) return { outcome: "rejected", slot, reason };
+
+    const sameConversation = (update.transcript_path ?? current.transcriptPath) === current.transcriptPath;
+    this.commit(slot, key, {
+      state,
+      ts,
+      // since: kept across same-state updates (thinking → thinking per tool call)
+      since: state === current.state ? (current.since ?? current.ts) : ts,
       // project: carry forward if missing
       project: update.project ?? current.project,
       // detail: transient, NOT carried forward
-      detail: update.detail,
+      detail,
       // prompt: carry forward if missing
       prompt: update.prompt ?? current.prompt,
-    };
+      // Claude context: carry forward if missing (model only arrives with SessionStart)
+      claudeSessionId: update.claude_session_id ?? current.claudeSessionId,
+      transcriptPath: update.transcript_path ?? current.transcriptPath,
+      model: update.model ?? current.model,
+      permissionMode: update.permission_mode ?? current.permissionMode,
+      // usage and todos belong to the conversation — dropped when the slot moves on to another transcript
+      usage: sameConversation ? current.usage : undefined,
+      todos: update.todos ?? (sameConversation ? current.todos : undefined),
+      // A crash rewritten to error is never recoverable
+      recoverable: state === "error" && !crashed && update.recoverable === true ? true : undefined,
+      // subagents: only while the session is active — done, idle, error and offline clear them
+      subagents: isActive(state) ? nonEmpty(applySubagentUpdate(sameConversation ? (current.subagents ?? []) : [], update, ts)) : undefined,
+      // seenAt: kept across same-state updates of a finished slot (done → done); any transition clears it
+      seenAt: state === current.state && !isActive(state) ? current.seenAt : undefined,
+    });
+    return { outcome: "applied", slot, state };
+  }
+
+  /**
+   * Key/dial press: mark a done / idle / error (or stale) slot as seen. Not a lifecycle transition —
+   * state, project, prompt and detail stay; the slot just stops asking for attention.
+   * Split panes: acknowledges the pane of `sessionId` (the dial's selected pane), else the pane on display;
+   * the next most urgent one shows up.
+   * Returns the acknowledged state, or undefined if there was nothing new to acknowledge.
+   */
+  acknowledge(slot: number, now: number = Date.now(), sessionId?: string): SessionState | undefined {
+    if (!this.inRange(slot)) return undefined;
+    const key = sessionId !== undefined && this.panes.get(slot)?.has(sessionId) ? sessionId : this.shownPane(slot);
+    if (key === undefined) return undefined;
+    const current = this.pane(slot, key);
+    if (current.seenAt !== undefined) return undefined;
+    if (!ACKNOWLEDGEABLE.has(current.state) && !current.stale) return undefined;
 
+    this.commit(slot, key, { ...current, seenAt: now });
+    return current.state;
+  }
+
+  /**
+   * Token/cost totals read from a transcript (UsageTracker), stored on the slot's pane reading it. Ignored when
+   * no pane is on that transcript anymore (moved on since the read started). Not a transition — no history entry.
+   */
+  setUsage(slot: number, transcriptPath: string, usage: SessionUsage): boolean {
+    if (!this.inRange(slot)) return false;
+    const entry = [...(this.panes.get(slot) ?? [])].find(([, info]) => info.transcriptPath === transcriptPath);
+    if (!entry) return false;
+    const [key, current] = entry;
+    this.commit(slot, key, { ...current, usage: structuredClone(usage) });
+    return true;
+  }
+
+  /** A pane's state. A session without a pane yet adopts the slot's anonymous one (explicit slot updates, restored slots). */
+  private pane(slot: number, key: string): SessionInfo {
+    const panes = this.panes.get(slot);
+    return panes?.get(key) ?? panes?.get(ANON_PANE) ?? defaultInfo();
+  }
+
+  private sortedPanes(slot: number): Array<[string, SessionInfo]> {
+    return [...(this.panes.get(slot) ?? [])].sort(([a], [b]) => a.localeCompare(b));
+  }
+
+  /** Key of the pane the slot shows. */
+  private shownPane(slot: number): string | undefined {
+    const entries = [...(this.panes.get(slot) ?? [])];
+    return entries[mostUrgent(entries.map(([, info]) => info))]?.[0];
+  }
+
+  /** Recompute what the slot shows: its most urgent pane, offline without any. */
+  private render(slot: number): SessionInfo {
+    const panes = [...(this.panes.get(slot)?.values() ?? [])];
+    const info = panes[mostUrgent(panes)] ?? defaultInfo();
     this.map.set(slot, info);
+    return info;
+  }
+
+  private commit(slot: number, key: string, info: SessionInfo): void {
+    const panes = this.panes.get(slot) ?? new Map<string, SessionInfo>();
+    // A session's own pane replaces the anonymous one it adopted
+    if (key !== ANON_PANE) panes.delete(ANON_PANE);
+    panes.set(key, info);
+    this.panes.set(slot, panes);
+    if (info.project !== undefined && info.project !== this.recent[0]) this.recent = rememberProject(this.recent, info.project);
+    const shown = this.render(slot);
     this.persist();
-    this.notify(slot, info);
+    this.notify(slot, shown);
+  }
+
+  /** Per-state stale timeouts in ms (global setting). States without an entry never go stale. */
+  setStaleTimeouts(timeouts: StaleTimeouts): void {
+    this.staleTimeouts = { ...timeouts };
+    this.checkStale();
+  }
+
+  /**
+   * Watchdog pass: flag slots with no update for longer than their state's timeout, clear the flag
+   * when they recover. Sessions the live iTerm2 daemon still reports get CONFIRMED_GRACE × the timeout
+   * (the tab exists — likely a long tool run, not a dead process). Returns the slots whose flag changed.
+   */
+  checkStale(now: number = Date.now()): number[] {
+    const daemonAlive = this.daemonSeenAt !== undefined && now - this.daemonSeenAt <= DAEMON_HEARTBEAT_TIMEOUT_MS;
+    const changed: number[] = [];
+    for (const [slot, panes] of this.panes) {
+      let flagged = false;
+      for (const [key, info] of panes) {
+        const timeout = this.staleTimeouts[info.state];
+        const sessionIds = key === ANON_PANE ? this.sessionsIn(slot) : [key];
+        const confirmed = daemonAlive && sessionIds.some((sessionId) => this.daemonSessions.has(sessionId));
+        const stale = timeout !== undefined && now - info.ts > (confirmed ? timeout * CONFIRMED_GRACE : timeout);
+        if (stale === (info.stale ?? false)) continue;
+
+        // Watchdog flag, not a transition — no history entry
+        const next: SessionInfo = { ...info };
+        if (stale) next.stale = true;
+        else delete next.stale;
+        panes.set(key, next);
+        flagged = true;
+      }
+      if (!flagged) continue;
+      changed.push(slot);
+      this.notify(slot, this.render(slot));
+    }
+    return changed;
+  }
+
+  /** Run checkStale() and checkDaemon() periodically. Returns a stop function. */
+  startWatchdog(intervalMs: number = STALE_CHECK_MS): () => void {
+    const timer = setInterval(() => {
+      this.checkStale();
+      this.checkDaemon();
+    }, intervalMs);
+    timer.unref?.();
+    return () => clearInterval(timer);
   }
 
   /** Buffer a state update for an unresolved session_id. Only keeps the latest per session. */
@@ -225,6 +699,7 @@ export class SessionStore {
       if (oldest !== undefined) this.pendingUpdates.delete(oldest);
     }
     this.pendingUpdates.set(sessionId, { ...update, ts: update.ts ?? now });
+    this.persist();
   }
 
   /** Replay buffered updates for sessions that now have a slot mapping. */
@@ -235,6 +710,7 @@ export class SessionStore {
         this.pendingUpdates.delete(sessionId);
         // Re-enter update() — now the session_id will resolve
         this.update(pending);
+        this.persist();
       }
     }
   }
@@ -245,12 +721,36 @@ export class SessionStore {
     }
   }
 
-  private persist(): void {
-    try {
-      mkdirSync(CACHE_DIR, { recursive: true });
-      writeFileSync(STATE_FILE, JSON.stringify(this.getAll(), null, 2));
-    } catch {
-      // Non-critical — silently ignore persistence failures
+  private notifyMapping(): void {
+    const mapping = this.getMapping();
+    for (const fn of this.mappingListeners) {
+      fn(mapping);
     }
   }
+
+  /** Write any state not yet on disk now (plugin exit). Otherwise writes happen shortly after each change. */
+  flush(): void {
+    this.out?.flush();
+  }
+
+  private persist(): void {
+    this.out?.schedule();
+  }
+
+  // state.json contents (STATE_VERSION)
+  private snapshot(): Record<string, unknown> {
+    return {
+      version: STATE_VERSION,
+      slotCount: this.count,
+      panes: Object.fromEntries([...this.panes].map(([slot, entries]) => [slot, Object.fromEntries(entries)])),
+      recentProjects: this.recent,
+      mapping: {
+        slots: Object.fromEntries(this.sessionSlotMap),
+        locations: Object.fromEntries(this.locations),
+        windowOrder: this.windowOrder,
+        sync: this.sync.save(),
+      },
+      pending: [...this.pendingUpdates.values()],
+    };
+  }
 }
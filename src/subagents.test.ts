@@ -0,0 +1,63 @@
+import { describe, it, expect } from "vitest";
+import { applySubagentUpdate, agentsLabel, SUBAGENTS_MAX } from "./subagents";
+import type { Subagent } from "./subagents";
+
+const start = (id: string, description?: string) => ({ subagent: { event: "start" as const, id, ...(description && { description }) } });
+
+describe("applySubagentUpdate", () => {
+  it("adds an agent per Task call, once per tool_use_id", () => {
+    let list: Subagent[] = applySubagentUpdate([], start("toolu_1", "Explore API"), 100);
+    list = applySubagentUpdate(list, start("toolu_1", "Explore API"), 110);
+    list = applySubagentUpdate(list, start("toolu_2"), 120);
+    expect(list).toEqual([
+      { id: "toolu_1", description: "Explore API", since: 100 },
+      { id: "toolu_2", since: 120 },
+    ]);
+  });
+
+  it("binds agent_id to the oldest unbound agent and records its tool activity", () => {
+    let list = applySubagentUpdate([], start("toolu_1", "A"), 100);
+    list = applySubagentUpdate(list, start("toolu_2", "B"), 100);
+    list = applySubagentUpdate(list, { agent_id: "ag-1", subagent: { event: "start", description: "Explore" } }, 110);
+    list = applySubagentUpdate(list, { agent_id: "ag-2", detail: "Grep: TODO" }, 120);
+    list = applySubagentUpdate(list, { agent_id: "ag-1", detail: "Read: state.ts" }, 130);
+    expect(list).toMatchObject([
+      { id: "toolu_1", agentId: "ag-1", description: "A", detail: "Read: state.ts" },
+      { id: "toolu_2", agentId: "ag-2", description: "B", detail: "Grep: TODO" },
+    ]);
+  });
+
+  it("adds agents whose start was not seen", () => {
+    expect(applySubagentUpdate([], { agent_id: "ag-1", detail: "Bash: ls" }, 100)).toEqual([
+      { id: "ag-1", agentId: "ag-1", since: 100, detail: "Bash: ls" },
+    ]);
+  });
+
+  it("removes the bound agent on stop, else the oldest", () => {
+    let list = applySubagentUpdate([], start("toolu_1"), 100);
+    list = applySubagentUpdate(list, start("toolu_2"), 100);
+    list = applySubagentUpdate(list, start("toolu_3"), 100);
+    list = applySubagentUpdate(list, { agent_id: "ag-x", detail: "Read" }, 110);  // binds toolu_1
+    list = applySubagentUpdate(list, { agent_id: "ag-y", detail: "Read" }, 110);  // binds toolu_2
+    list = applySubagentUpdate(list, { subagent: { event: "stop" }, agent_id: "ag-y" }, 120);
+    expect(list.map((a) => a.id)).toEqual(["toolu_1", "toolu_3"]);
+    list = applySubagentUpdate(list, { subagent: { event: "stop" } }, 130);
+    expect(list.map((a) => a.id)).toEqual(["toolu_3"]);
+    list = applySubagentUpdate(list, { subagent: { event: "stop" } }, 140);
+    expect(applySubagentUpdate(list, { subagent: { event: "stop" } }, 150)).toEqual([]);
+  });
+
+  it("keeps at most SUBAGENTS_MAX agents", () => {
+    let list: Subagent[] = [];
+    for (let i = 0; i <= SUBAGENTS_MAX; i++) list = applySubagentUpdate(list, start(`toolu_${i}`), i);
+    expect(list).toHaveLength(SUBAGENTS_MAX);
+    expect(list[0].id).toBe("toolu_1");
+  });
+});
+
+describe("agentsLabel", () => {
+  it("pluralizes", () => {
+    expect(agentsLabel(1)).toBe("1 agent");
+    expect(agentsLabel(3)).toBe("3 agents");
+  });
+});
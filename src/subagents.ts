@@ -0,0 +1,64 @@
+// Task subagents running inside one Claude session — a nested sub-session per agent
+export type Subagent = {
+  id: string;            // tool_use_id of the Task call, or Claude's agent_id when the start was not seen
+  agentId?: string;      // Claude's agent_id, bound on SubagentStart or the agent's first tool call
+  description?: string;  // Task description or agent type
+  since: number;
+  detail?: string;       // the agent's current tool ("Grep: TODO")
+};
+
+// Sub-session event carried by a state update
+export type SubagentEvent = {
+  event: "start" | "stop";
+  id?: string;           // tool_use_id (start from PreToolUse Task)
+  description?: string;
+};
+
+// Agents tracked per slot; the oldest is dropped beyond this
+export const SUBAGENTS_MAX = 16;
+
+// Entry for `agentId`: already bound to it, else the oldest one not bound to any agent yet
+const bind = (list: Subagent[], agentId: string): number => {
+  const bound = list.findIndex((a) => a.agentId === agentId);
+  return bound !== -1 ? bound : list.findIndex((a) => a.agentId === undefined);
+};
+
+/**
+ * Apply a state update's sub-session fields to a slot's agent list (returns a new list):
+ * - `subagent.start` with `id` (PreToolUse Task) adds an agent; with only `agent_id` (SubagentStart)
+ *   it binds the oldest unbound agent, or adds one.
+ * - `subagent.stop` removes the agent bound to `agent_id`, else the oldest (SubagentStop can't name the Task).
+ * - `agent_id` without an event is that agent's tool activity: sets its `detail`.
+ */
+export const applySubagentUpdate = (
+  list: readonly Subagent[],
+  update: { subagent?: SubagentEvent; agent_id?: string; detail?: string },
+  ts: number,
+): Subagent[] => {
+  const next = list.map((a) => ({ ...a }));
+  const { subagent, agent_id: agentId } = update;
+
+  if (subagent?.event === "stop") {
+    const index = agentId !== undefined ? bind(next, agentId) : -1;
+    next.splice(index !== -1 ? index : 0, 1);
+    return next;
+  }
+
+  if (subagent?.event === "start" && subagent.id !== undefined) {
+    if (!next.some((a) => a.id === subagent.id)) {
+      next.push({ id: subagent.id, since: ts, ...(subagent.description !== undefined && { description: subagent.description }) });
+    }
+  } else if (agentId !== undefined) {
+    const index = bind(next, agentId);
+    const agent = index !== -1 ? next[index] : { id: agentId, since: ts };
+    agent.agentId = agentId;
+    if (subagent?.description !== undefined) agent.description ??= subagent.description;
+    if (subagent === undefined && update.detail !== undefined) agent.detail = update.detail;
+    if (index === -1) next.push(agent);
+  }
+
+  return next.length > SUBAGENTS_MAX ? next.slice(next.length - SUBAGENTS_MAX) : next;
+};
+
+/** "1 agent", "3 agents" */
+export const agentsLabel = (count: number): string => `${count} ${count === 1 ? "agent" : "agents"}`;
@@ -0,0 +1,120 @@
+import { describe, it, expect } from "vitest";
+import { projectTail, ellipsize, escapeXml, foregroundFor, renderKeySvg, svgDataUrl, keyAnimation, isAnimated, renderOverviewSvg, ANIMATION_FRAMES } from "./svg";
+
+describe("projectTail", () => {
+  it("keeps the last N path segments", () => {
+    expect(projectTail("/Users/me/src/app/", 1)).toBe("app");
+    expect(projectTail("/Users/me/src/app", 2)).toBe("src/app");
+    expect(projectTail(undefined, 1)).toBe("");
+  });
+});
+
+describe("ellipsize", () => {
+  it("leaves short text alone and truncates long text with an ellipsis", () => {
+    expect(ellipsize("api", 9)).toBe("api");
+    expect(ellipsize("my-long-project", 9)).toBe("my-long-…");
+    expect(ellipsize("my-long-project", 9)).toHaveLength(9);
+  });
+});
+
+describe("escapeXml", () => {
+  it("escapes markup characters", () => {
+    expect(escapeXml(`<a href="x">&'`)).toBe("&lt;a href=&quot;x&quot;&gt;&amp;&apos;");
+  });
+});
+
+describe("foregroundFor", () => {
+  it("uses black on light backgrounds and white on dark ones", () => {
+    expect(foregroundFor("#FFC107")).toBe("#000000");
+    expect(foregroundFor("#424242")).toBe("#FFFFFF");
+  });
+});
+
+describe("renderKeySvg", () => {
+  it("draws at the requested size over a 72-unit viewBox", () => {
+    expect(renderKeySvg({ size: 72, background: "#000000", glyph: "none", slot: 1 }))
+      .toContain(`width="72" height="72" viewBox="0 0 72 72"`);
+    expect(renderKeySvg({ background: "#000000", glyph: "none", slot: 1 }))
+      .toContain(`width="144" height="144"`);
+  });
+
+  it("includes the slot badge, an escaped ellipsized label and the detail line", () => {
+    const svg = renderKeySvg({ background: "#2196F3", glyph: "spinner", slot: 3, label: "a<b>-very-long", detail: "4m12s" });
+    expect(svg).toContain(">3</text>");
+    expect(svg).toContain(">a&lt;b&gt;-ver…</text>");
+    expect(svg).toContain(">4m12s</text>");
+    expect(svg).toContain("<path");
+  });
+
+  it("omits the slot badge without a slot (pinned key, project not open)", () => {
+    expect(renderKeySvg({ background: "#000000", glyph: "none", label: "api" })).not.toContain("<circle");
+  });
+
+  it("clamps the progress bar to 0..1", () => {
+    expect(renderKeySvg({ background: "#000000", glyph: "none", slot: 1, progress: 2 })).toContain(`width="60.0"`);
+    expect(renderKeySvg({ background: "#000000", glyph: "none", slot: 1, progress: 0.5 })).toContain(`width="30.0"`);
+    expect(renderKeySvg({ background: "#000000", glyph: "none", slot: 1 })).not.toContain(`y="64"`);
+  });
+});
+
+describe("keyAnimation", () => {
+  it("turns the spinner one step per frame while thinking, wrapping each cycle", () => {
+    expect(keyAnimation("thinking", 0)).toEqual({ spin: 0 });
+    expect(keyAnimation("thinking", 1)).toEqual({ spin: 45 });
+    expect(keyAnimation("thinking", ANIMATION_FRAMES + 2)).toEqual({ spin: 90 });
+  });
+
+  it("pulses the glyph while compacting", () => {
+    expect(keyAnimation("compacting", 0).pulse).toBe(1);
+    expect(keyAnimation("compacting", ANIMATION_FRAMES / 2).pulse).toBe(0.4);
+  });
+
+  it("blinks the border on permission and leaves other states static", () => {
+    expect(keyAnimation("permission", 0)).toEqual({ border: true });
+    expect(keyAnimation("permission", 2)).toEqual({ border: false });
+    expect(keyAnimation("done", 3)).toEqual({});
+  });
+
+  it("renders rotation, opacity and border into the SVG", () => {
+    const base = { background: "#2196F3", slot: 1 } as const;
+    expect(renderKeySvg({ ...base, glyph: "spinner", spin: 90 })).toContain(`rotate(90 58 13)`);
+    expect(renderKeySvg({ ...base, glyph: "spinner", pulse: 0.4 })).toContain(`opacity="0.4"`);
+    expect(renderKeySvg({ ...base, glyph: "lock", border: true })).toContain(`stroke-width="4"`);
+    expect(renderKeySvg({ ...base, glyph: "lock", border: false })).not.toContain(`stroke-width="4"`);
+  });
+});
+
+describe("isAnimated", () => {
+  it("animates active states unless the slot is stale", () => {
+    expect(isAnimated({ state: "thinking", ts: 0 })).toBe(true);
+    expect(isAnimated({ state: "thinking", ts: 0, stale: true })).toBe(false);
+    expect(isAnimated({ state: "done", ts: 0 })).toBe(false);
+  });
+
+  it("dims stale keys with white text", () => {
+    const svg = renderKeySvg({ background: "#FFC107", glyph: "hourglass", slot: 1, label: "api", dimmed: true });
+    expect(svg).toContain(`fill-opacity="0.5"`);
+    expect(svg).toContain(`fill="#FFFFFF"`);
+  });
+});
+
+describe("renderOverviewSvg", () => {
+  it("draws a count per cell and fades empty cells", () => {
+    const svg = renderOverviewSvg({
+      background: "#FFC107",
+      cells: [
+        { glyph: "lock", count: 2 },
+        { glyph: "cross", count: 0 },
+      ],
+    });
+    expect(svg).toContain(">2</text>");
+    expect(svg).toContain(">0</text>");
+    expect(svg.match(/opacity="0.35"/g)).toHaveLength(1);
+  });
+});
+
+describe("svgDataUrl", () => {
+  it("percent-encodes the markup", () => {
+    expect(svgDataUrl(`<svg a="#"/>`)).toBe("data:image/svg+xml;charset=utf8,%3Csvg%20a%3D%22%23%22%2F%3E");
+  });
+});
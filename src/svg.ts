@@ -1,6 +1,193 @@
+import type { SessionInfo, SessionState } from "./types";
+
 // Project path tail (last N segments)
 export const projectTail = (project: string | undefined, segments: number): string => {
   if (!project) return "";
   const parts = project.replace(/\/$/, "").split("/");
   return parts.slice(-segments).join("/");
 };
+
+export const ellipsize = (text: string, maxChars: number): string =>
+  text.length > maxChars ? text.slice(0, Math.max(0, maxChars - 1)) + "…" : text;
+
+export const escapeXml = (text: string): string =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+
+// Relative luminance (sRGB) — picks black or white foreground for a background color
+const luminance = (hex: string): number => {
+  const channel = (i: number): number => {
+    const c = parseInt(hex.slice(i, i + 2), 16) / 255;
+    return c <= 0.03928 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+  };
+  return 0.2126 * channel(1) + 0.7152 * channel(3) + 0.0722 * channel(5);
+};
+
+export const foregroundFor = (background: string): string =>
+  luminance(background) > 0.4 ? "#000000" : "#FFFFFF";
+
+export type Glyph = "spinner" | "lock" | "check" | "cross" | "dot" | "hourglass" | "none";
+
+export const STATE_GLYPHS: Record<SessionState, Glyph> = {
+  idle: "dot",
+  thinking: "spinner",
+  permission: "lock",
+  compacting: "spinner",
+  done: "check",
+  error: "cross",
+  offline: "none",
+};
+
+// Glyphs are drawn in a 16x16 box at (x, y)
+const glyphSvg = (glyph: Glyph, x: number, y: number, fg: string): string => {
+  const stroke = `stroke="${fg}" stroke-width="2.2" fill="none" stroke-linecap="round" stroke-linejoin="round"`;
+  switch (glyph) {
+    case "spinner":
+      // Three-quarter ring
+      return `<path d="M${x + 8} ${y + 1.5} A6.5 6.5 0 1 1 ${x + 1.5} ${y + 8}" ${stroke}/>`;
+    case "lock":
+      return (
+        `<path d="M${x + 4.5} ${y + 7} V${y + 4.5} a3.5 3.5 0 0 1 7 0 V${y + 7}" ${stroke}/>` +
+        `<rect x="${x + 2.5}" y="${y + 7}" width="11" height="8" rx="1.5" fill="${fg}"/>`
+      );
+    case "check":
+      return `<path d="M${x + 2} ${y + 8.5} L${x + 6.5} ${y + 13} L${x + 14} ${y + 3.5}" ${stroke}/>`;
+    case "cross":
+      return `<path d="M${x + 3} ${y + 3} L${x + 13} ${y + 13} M${x + 13} ${y + 3} L${x + 3} ${y + 13}" ${stroke}/>`;
+    case "hourglass":
+      return (
+        `<path d="M${x + 3} ${y + 1.5} H${x + 13} M${x + 3} ${y + 14.5} H${x + 13}" ${stroke}/>` +
+        `<path d="M${x + 4.5} ${y + 1.5} L${x + 11.5} ${y + 14.5} M${x + 11.5} ${y + 1.5} L${x + 4.5} ${y + 14.5}" ${stroke}/>`
+      );
+    case "dot":
+      return `<circle cx="${x + 8}" cy="${y + 8}" r="3.5" fill="${fg}"/>`;
+    case "none":
+      return "";
+  }
+};
+
+export type KeyImage = {
+  size?: 72 | 144;     // output pixels — drawing is always in a 72-unit viewBox
+  background: string;  // #RRGGBB
+  glyph: Glyph;
+  slot?: number;       // badge (top-left) — omitted when undefined
+  label?: string;      // main line (project name) — ellipsized
+  detail?: string;     // optional smaller line below (tool, elapsed time)
+  progress?: number;   // 0..1 — bar along the bottom edge
+  spin?: number;       // glyph rotation in degrees (animation frame)
+  pulse?: number;      // glyph opacity 0..1 (animation frame)
+  border?: boolean;    // inset border (blinks while a permission is pending)
+  dimmed?: boolean;    // darken the background (stale slots)
+};
+
+// Frames per animation cycle — the actions layer advances one frame per FRAME_MS
+export const ANIMATION_FRAMES = 8;
+
+export const ANIMATED_STATES: ReadonlySet<SessionState> = new Set(["thinking", "compacting", "permission"]);
+
+/** Animated unless the watchdog flagged the slot stale — a hung session should not look busy. */
+export const isAnimated = (info: SessionInfo): boolean => ANIMATED_STATES.has(info.state) && !info.stale;
+
+export type KeyAnimation = Pick<KeyImage, "spin" | "pulse" | "border">;
+
+/** Per-frame animation: spinner turns while thinking, glyph pulses while compacting, border blinks on permission. */
+export const keyAnimation = (state: SessionState, frame: number): KeyAnimation => {
+  const f = frame % ANIMATION_FRAMES;
+  switch (state) {
+    case "thinking":
+      return { spin: f * (360 / ANIMATION_FRAMES) };
+    case "compacting":
+      return { pulse: Math.round((0.4 + 0.6 * Math.abs(Math.cos((f * Math.PI) / ANIMATION_FRAMES))) * 100) / 100 };
+    case "permission":
+      return { border: f % 4 < 2 };
+    default:
+      return {};
+  }
+};
+
+const FONT = `font-family="-apple-system, 'Helvetica Neue', Helvetica, Arial, sans-serif"`;
+
+/** Compose a Stream Deck key image (72x72 or 144x144) as SVG markup. */
+export const renderKeySvg = (key: KeyImage): string => {
+  const size = key.size ?? 144;
+  const fg = key.dimmed ? "#FFFFFF" : foregroundFor(key.background);
+  const parts: string[] = [];
+
+  parts.push(`<rect width="72" height="72" fill="${key.background}"/>`);
+  if (key.dimmed) parts.push(`<rect width="72" height="72" fill="#000000" fill-opacity="0.5"/>`);
+
+  // Slot badge (top-left)
+  if (key.slot !== undefined) {
+    parts.push(`<circle cx="13" cy="13" r="9" fill="${fg}" fill-opacity="0.22"/>`);
+    parts.push(
+      `<text x="13" y="17" text-anchor="middle" font-size="${key.slot >= 10 ? 9 : 11}" font-weight="700" fill="${fg}" ${FONT}>${key.slot}</text>`,
+    );
+  }
+
+  // State glyph (top-right), rotated/faded around its center when animated
+  const glyph = glyphSvg(key.glyph, 50, 5, fg);
+  if (glyph && (key.spin || key.pulse !== undefined)) {
+    const rotate = key.spin ? ` transform="rotate(${key.spin} 58 13)"` : "";
+    const opacity = key.pulse !== undefined ? ` opacity="${key.pulse}"` : "";
+    parts.push(`<g${rotate}${opacity}>${glyph}</g>`);
+  } else {
+    parts.push(glyph);
+  }
+
+  if (key.label) {
+    parts.push(
+      `<text x="36" y="${key.detail ? 43 : 48}" text-anchor="middle" font-size="13" font-weight="600" fill="${fg}" ${FONT}>${escapeXml(ellipsize(key.label, 9))}</text>`,
+    );
+  }
+
+  if (key.detail) {
+    parts.push(
+      `<text x="36" y="58" text-anchor="middle" font-size="10" fill="${fg}" fill-opacity="0.85" ${FONT}>${escapeXml(ellipsize(key.detail, 12))}</text>`,
+    );
+  }
+
+  if (key.progress !== undefined) {
+    const p = Math.min(1, Math.max(0, key.progress));
+    parts.push(`<rect x="6" y="64" width="60" height="4" rx="2" fill="${fg}" fill-opacity="0.25"/>`);
+    if (p > 0) parts.push(`<rect x="6" y="64" width="${(60 * p).toFixed(1)}" height="4" rx="2" fill="${fg}"/>`);
+  }
+
+  if (key.border) {
+    parts.push(`<rect x="2" y="2" width="68" height="68" rx="6" fill="none" stroke="${fg}" stroke-width="4"/>`);
+  }
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 72 72">${parts.join("")}</svg>`;
+};
+
+export const svgDataUrl = (svg: string): string =>
+  `data:image/svg+xml;charset=utf8,${encodeURIComponent(svg)}`;
+
+export type OverviewImage = {
+  size?: 72 | 144;
+  background: string;
+  // Glyph + count per quadrant, in reading order
+  cells: { glyph: Glyph; count: number }[];
+};
+
+/** Compose the aggregate overview key: up to four glyph/count cells in a 2×2 grid. Zero counts are faded. */
+export const renderOverviewSvg = (key: OverviewImage): string => {
+  const size = key.size ?? 144;
+  const fg = foregroundFor(key.background);
+  const parts: string[] = [`<rect width="72" height="72" fill="${key.background}"/>`];
+
+  key.cells.slice(0, 4).forEach((cell, i) => {
+    const x = i % 2 === 0 ? 3 : 36;
+    const y = i < 2 ? 10 : 44;
+    const opacity = cell.count > 0 ? "" : ` opacity="0.35"`;
+    parts.push(
+      `<g${opacity}>${glyphSvg(cell.glyph, x, y, fg)}` +
+      `<text x="${x + 18}" y="${y + 13}" font-size="13" font-weight="700" fill="${fg}" ${FONT}>${cell.count}</text></g>`,
+    );
+  });
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 72 72">${parts.join("")}</svg>`;
+};
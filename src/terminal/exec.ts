@@ -0,0 +1,23 @@
+import { execFile } from "node:child_process";
+
+// Stream Deck launches plugins with a minimal PATH — add the usual Homebrew / local bin dirs
+const EXTRA_PATH = ["/opt/homebrew/bin", "/usr/local/bin"];
+
+const EXEC_TIMEOUT_MS = 5_000;
+
+export type ExecResult = { ok: true; stdout: string } | { ok: false; error: string };
+
+/** Run a terminal CLI (osascript, tmux, kitty, wezterm). Never rejects. */
+export const run = (file: string, args: string[]): Promise<ExecResult> => {
+  const env = { ...process.env, PATH: [process.env.PATH, ...EXTRA_PATH].filter(Boolean).join(":") };
+
+  return new Promise((resolve) => {
+    execFile(file, args, { env, timeout: EXEC_TIMEOUT_MS }, (error, stdout) => {
+      if (error) {
+        resolve({ ok: false, error: error.message });
+        return;
+      }
+      resolve({ ok: true, stdout: String(stdout) });
+    });
+  });
+};
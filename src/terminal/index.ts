@@ -0,0 +1,53 @@
+import type { LocatedSession, TerminalKind } from "../types";
+import { createItermBackend } from "./iterm";
+import { createTmuxBackend } from "./tmux";
+import { createKittyBackend } from "./kitty";
+import { createWeztermBackend } from "./wezterm";
+
+export type TerminalSession = {
+  slot: number;
+  id: string;      // backend-specific: iTerm session UUID, tmux window id, kitty tab id, WezTerm pane id
+  title?: string;
+};
+
+// Where the daemon last saw a slot's session (iTerm2 window + tab), preferring `sessionId` — provided by the
+// plugin from the store
+export type SlotLocator = (slot: number, sessionId?: string) => LocatedSession | undefined;
+
+// The daemon's mapping, both ways — lets the iTerm2 backend address sessions across windows
+export type SessionLookup = {
+  locate: SlotLocator;
+  resolveSlot: (sessionId: string) => number | undefined;
+};
+
+/** Terminal integration used by key/dial presses. Slot N = Nth tab/window of the terminal. */
+export interface TerminalBackend {
+  readonly kind: TerminalKind;
+  /** Bring the slot's tab/window to the front — iTerm2: the pane of `sessionId` when given (split panes). */
+  focus(slot: number, sessionId?: string): Promise<boolean>;
+  /** Type text into the slot's active pane. Not submitted — include "\r" to press Enter. */
+  sendText(slot: number, text: string): Promise<boolean>;
+  listSessions(): Promise<TerminalSession[]>;
+}
+
+export const createTerminal = (kind: TerminalKind, target?: string, sessions?: SessionLookup): TerminalBackend => {
+  switch (kind) {
+    case "tmux":
+      return createTmuxBackend(target);
+    case "kitty":
+      return createKittyBackend(target);
+    case "wezterm":
+      return createWeztermBackend();
+    case "iterm":
+      return createItermBackend(sessions);
+  }
+};
+
+let active: TerminalBackend = createItermBackend();
+
+/** Backend selected in the plugin's global settings (iTerm2 until settings arrive). */
+export const terminal = (): TerminalBackend => active;
+
+export const setTerminal = (backend: TerminalBackend): void => {
+  active = backend;
+};
@@ -0,0 +1,131 @@
+import streamDeck from "@elgato/streamdeck";
+import type { SessionLookup, TerminalBackend } from "./index";
+import { run } from "./exec";
+import { appleScriptString, parseItermTabs } from "./parse";
+
+const logger = streamDeck.logger.createScope("iTerm");
+
+const FOCUS_SCRIPT = (tabIndex: number): string => `
+tell application "iTerm2"
+  activate
+  if (count of windows) = 0 then
+    create window with default profile
+  end if
+  tell current window
+    set tabCount to count of tabs
+    repeat while tabCount <= ${tabIndex}
+      create tab with default profile
+      set tabCount to tabCount + 1
+    end repeat
+    select tab ${tabIndex + 1}
+  end tell
+end tell
+`;
+
+// Run `body` (with w, t, s bound) on the session with this unique id, whichever window it is in
+const IN_SESSION_SCRIPT = (sessionId: string, body: string): string => `
+tell application "iTerm2"
+  repeat with w in windows
+    repeat with t in tabs of w
+      repeat with s in sessions of t
+        if unique id of s is ${appleScriptString(sessionId)} then
+${body}
+          return "ok"
+        end if
+      end repeat
+    end repeat
+  end repeat
+  return "missing"
+end tell
+`;
+
+// The daemon reported where the slot's session lives: select its window, tab and pane
+const FOCUS_SESSION_SCRIPT = (sessionId: string): string => IN_SESSION_SCRIPT(sessionId, `
+          activate
+          select w
+          select t
+          select s`);
+
+const SEND_TEXT_SESSION_SCRIPT = (sessionId: string, text: string): string => IN_SESSION_SCRIPT(sessionId, `
+          tell s to write text ${appleScriptString(text)} newline NO`);
+
+const SEND_TEXT_SCRIPT = (tabIndex: number, text: string): string => `
+tell application "iTerm2"
+  tell current window
+    tell current session of tab ${tabIndex + 1}
+      write text ${appleScriptString(text)} newline NO
+    end tell
+  end tell
+end tell
+`;
+
+// Every window's tabs, in window order — slots come from the daemon's mapping (parseItermTabs)
+const LIST_SCRIPT = `
+tell application "iTerm2"
+  set out to ""
+  repeat with w in windows
+    repeat with t in tabs of w
+      set s to current session of t
+      set out to out & (unique id of s) & tab & (name of s) & linefeed
+    end repeat
+  end repeat
+  return out
+end tell
+`;
+
+// osascript printed "ok": the located session was found (and acted on)
+const inSession = async (script: string): Promise<boolean> => {
+  const result = await run("osascript", ["-e", script]);
+  return result.ok && result.stdout.trim() === "ok";
+};
+
+/**
+ * iTerm2 via AppleScript. Focus and send-text go to the session the daemon reported for the slot, whichever
+ * window it is in; without a location, slot N = tab N of the current window (missing tabs are created on focus).
+ */
+export const createItermBackend = (sessions?: SessionLookup): TerminalBackend => ({
+  kind: "iterm",
+
+  async focus(slot, sessionId) {
+    const located = sessions?.locate(slot, sessionId);
+    if (located) {
+      if (await inSession(FOCUS_SESSION_SCRIPT(located.session_id))) {
+        logger.info(`Slot ${slot}: switched to iTerm window ${located.window_id} tab ${located.tab_index}`);
+        return true;
+      }
+      // Session gone since the last mapping (or osascript failed) — fall back to the tab position
+      logger.warn(`Slot ${slot}: session ${located.session_id} not found, using tab position`);
+    }
+    const tabIndex = slot - 1;
+    const result = await run("osascript", ["-e", FOCUS_SCRIPT(tabIndex)]);
+    if (!result.ok) {
+      logger.error(`Slot ${slot}: iTerm switch failed: ${result.error}`);
+      return false;
+    }
+    logger.info(`Slot ${slot}: switched to iTerm tab ${tabIndex}`);
+    return true;
+  },
+
+  async sendText(slot, text) {
+    const located = sessions?.locate(slot);
+    if (located) {
+      if (await inSession(SEND_TEXT_SESSION_SCRIPT(located.session_id, text))) return true;
+      logger.warn(`Slot ${slot}: session ${located.session_id} not found, using tab position`);
+    }
+    const result = await run("osascript", ["-e", SEND_TEXT_SCRIPT(slot - 1, text)]);
+    if (!result.ok) {
+      logger.error(`Slot ${slot}: iTerm send-text failed: ${result.error}`);
+      return false;
+    }
+    return true;
+  },
+
+  async listSessions() {
+    const result = await run("osascript", ["-e", LIST_SCRIPT]);
+    if (!result.ok) {
+      logger.error(`iTerm list failed: ${result.error}`);
+      return [];
+    }
+    return parseItermTabs(result.stdout, sessions?.resolveSlot);
+  },
+});
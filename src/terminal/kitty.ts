@@ -0,0 +1,60 @@
+import streamDeck from "@elgato/streamdeck";
+import type { TerminalBackend } from "./index";
+import { run } from "./exec";
+import { parseKittyLs } from "./parse";
+
+const logger = streamDeck.logger.createScope("kitty");
+
+/**
+ * kitty via remote control (`allow_remote_control` + `listen_on` in kitty.conf).
+ * `socket` is the `listen_on` address, e.g. "unix:/tmp/kitty". Slot N = Nth tab of the focused OS window.
+ */
+export const createKittyBackend = (socket?: string): TerminalBackend => {
+  const kitty = (args: string[]) => run("kitty", ["@", ...(socket ? ["--to", socket] : []), ...args]);
+
+  const listSessions = async () => {
+    const result = await kitty(["ls"]);
+    if (!result.ok) {
+      logger.error(`kitty ls failed: ${result.error}`);
+      return [];
+    }
+    return parseKittyLs(result.stdout);
+  };
+
+  const tabId = async (slot: number): Promise<string | undefined> => {
+    const tabs = await listSessions();
+    return tabs.find((t) => t.slot === slot)?.id;
+  };
+
+  return {
+    kind: "kitty",
+
+    async focus(slot) {
+      const id = await tabId(slot);
+      if (id === undefined) {
+        logger.warn(`Slot ${slot}: no kitty tab`);
+        return false;
+      }
+      const result = await kitty(["focus-tab", "--match", `id:${id}`]);
+      if (!result.ok) {
+        logger.error(`Slot ${slot}: kitty focus-tab failed: ${result.error}`);
+        return false;
+      }
+      logger.info(`Slot ${slot}: focused kitty tab ${id}`);
+      return true;
+    },
+
+    async sendText(slot, text) {
+      const id = await tabId(slot);
+      if (id === undefined) return false;
+      const result = await kitty(["send-text", "--match-tab", `id:${id}`, "--", text]);
+      if (!result.ok) {
+        logger.error(`Slot ${slot}: kitty send-text failed: ${result.error}`);
+        return false;
+      }
+      return true;
+    },
+
+    listSessions,
+  };
+};
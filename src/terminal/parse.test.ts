@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import { parseTmuxWindows, parseKittyLs, parseWeztermList, parseItermTabs, appleScriptString } from "./parse";
+
+describe("parseTmuxWindows", () => {
+  it("numbers windows by index order, ignoring gaps and base-index", () => {
+    const out = "3\t@7\tserver\n1\t@2\teditor\n2\t@5\tclaude\n";
+    expect(parseTmuxWindows(out)).toEqual([
+      { slot: 1, id: "@2", title: "editor" },
+      { slot: 2, id: "@5", title: "claude" },
+      { slot: 3, id: "@7", title: "server" },
+    ]);
+  });
+
+  it("ignores blank and malformed lines", () => {
+    expect(parseTmuxWindows("\nfoo\n0\t@1\tmain\n")).toEqual([{ slot: 1, id: "@1", title: "main" }]);
+  });
+});
+
+describe("parseKittyLs", () => {
+  it("lists tabs of the focused OS window", () => {
+    const out = JSON.stringify([
+      { is_focused: false, tabs: [{ id: 1, title: "other" }] },
+      { is_focused: true, tabs: [{ id: 4, title: "a" }, { id: 9, title: "b" }] },
+    ]);
+    expect(parseKittyLs(out)).toEqual([
+      { slot: 1, id: "4", title: "a" },
+      { slot: 2, id: "9", title: "b" },
+    ]);
+  });
+
+  it("returns empty for invalid JSON", () => {
+    expect(parseKittyLs("not json")).toEqual([]);
+  });
+});
+
+describe("parseWeztermList", () => {
+  it("returns one entry per tab of the first window, preferring the active pane", () => {
+    const out = JSON.stringify([
+      { window_id: 0, tab_id: 0, pane_id: 0, title: "a", is_active: true },
+      { window_id: 0, tab_id: 1, pane_id: 1, title: "b1", is_active: false },
+      { window_id: 0, tab_id: 1, pane_id: 2, title: "b2", is_active: true },
+      { window_id: 1, tab_id: 2, pane_id: 3, title: "other", is_active: true },
+    ]);
+    expect(parseWeztermList(out)).toEqual([
+      { slot: 1, id: "0", title: "a" },
+      { slot: 2, id: "2", title: "b2" },
+    ]);
+  });
+});
+
+describe("parseItermTabs", () => {
+  it("parses UUID/name lines", () => {
+    expect(parseItermTabs("UUID-1\tzsh\nUUID-2\tclaude\n")).toEqual([
+      { slot: 1, id: "UUID-1", title: "zsh" },
+      { slot: 2, id: "UUID-2", title: "claude" },
+    ]);
+  });
+
+  it("takes slots from the daemon's mapping across windows and leaves unmapped tabs out", () => {
+    const mapping: Record<string, number> = { "UUID-1": 3, "UUID-3": 1 };
+    expect(parseItermTabs("UUID-1\tzsh\nUUID-2\tscratch\nUUID-3\tclaude\n", (id) => mapping[id])).toEqual([
+      { slot: 3, id: "UUID-1", title: "zsh" },
+      { slot: 1, id: "UUID-3", title: "claude" },
+    ]);
+  });
+});
+
+describe("appleScriptString", () => {
+  it("escapes quotes and backslashes", () => {
+    expect(appleScriptString('say "hi" \\ bye')).toBe('"say \\"hi\\" \\\\ bye"');
+  });
+});
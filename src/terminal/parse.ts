@@ -0,0 +1,81 @@
+import type { TerminalSession } from "./index";
+
+// Output parsers for terminal CLIs — kept free of Stream Deck imports so they can be unit tested.
+// Slot convention for every backend: slot N = Nth tab/window in display order.
+
+/** `tmux list-windows -F "#{window_index}\t#{window_id}\t#{window_name}"` */
+export const parseTmuxWindows = (stdout: string): TerminalSession[] =>
+  stdout
+    .split("\n")
+    .map((line) => line.split("\t"))
+    .filter((cols) => cols.length >= 2 && /^\d+$/.test(cols[0]!))
+    .sort((a, b) => Number(a[0]) - Number(b[0]))
+    .map((cols, i) => ({ slot: i + 1, id: cols[1]!, title: cols[2] }));
+
+type KittyWindow = { id?: unknown; title?: unknown; is_focused?: unknown };
+type KittyTab = { id?: unknown; title?: unknown; windows?: KittyWindow[] };
+type KittyOsWindow = { is_focused?: unknown; tabs?: KittyTab[] };
+
+/** `kitty @ ls` — tabs of the focused OS window (first OS window if none is focused). */
+export const parseKittyLs = (stdout: string): TerminalSession[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(stdout);
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(parsed) || parsed.length === 0) return [];
+  const osWindows = parsed as KittyOsWindow[];
+  const osWindow = osWindows.find((w) => w.is_focused === true) ?? osWindows[0]!;
+  return (osWindow.tabs ?? []).map((tab, i) => ({
+    slot: i + 1,
+    id: String(tab.id),
+    title: typeof tab.title === "string" ? tab.title : undefined,
+  }));
+};
+
+type WeztermPane = { window_id?: unknown; tab_id?: unknown; pane_id?: unknown; title?: unknown; is_active?: unknown };
+
+/** `wezterm cli list --format json` — one entry per tab of the first window, id = its first pane. */
+export const parseWeztermList = (stdout: string): TerminalSession[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(stdout);
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(parsed) || parsed.length === 0) return [];
+  const panes = parsed as WeztermPane[];
+  const windowId = panes[0]!.window_id;
+  const tabs = new Map<unknown, WeztermPane>();
+  for (const pane of panes) {
+    if (pane.window_id !== windowId) continue;
+    // Prefer the active pane of each tab for send-text
+    if (!tabs.has(pane.tab_id) || pane.is_active === true) tabs.set(pane.tab_id, pane);
+  }
+  return [...tabs.values()].map((pane, i) => ({
+    slot: i + 1,
+    id: String(pane.pane_id),
+    title: typeof pane.title === "string" ? pane.title : undefined,
+  }));
+};
+
+/**
+ * `osascript` tab listing from the iTerm2 backend: one "UUID\tname" line per tab, all windows in order.
+ * With the daemon's mapping (`resolveSlot`) each tab gets its session's slot and unmapped tabs are left out;
+ * without it, slot N = the Nth line.
+ */
+export const parseItermTabs = (stdout: string, resolveSlot?: (sessionId: string) => number | undefined): TerminalSession[] =>
+  stdout
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0)
+    .flatMap((line, i) => {
+      const [id, ...title] = line.split("\t");
+      const slot = resolveSlot ? resolveSlot(id!) : i + 1;
+      return slot === undefined ? [] : [{ slot, id: id!, title: title.join("\t") || undefined }];
+    });
+
+/** Escape a string for an AppleScript double-quoted literal. */
+export const appleScriptString = (text: string): string =>
+  `"${text.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
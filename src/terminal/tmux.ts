@@ -0,0 +1,63 @@
+import streamDeck from "@elgato/streamdeck";
+import type { TerminalBackend } from "./index";
+import { run } from "./exec";
+import { parseTmuxWindows } from "./parse";
+
+const logger = streamDeck.logger.createScope("tmux");
+
+const LIST_FORMAT = "#{window_index}\t#{window_id}\t#{window_name}";
+
+/**
+ * tmux via its CLI. Slot N = Nth window (by index) of `target`,
+ * or of the most recently used session when no target is set.
+ */
+export const createTmuxBackend = (target?: string): TerminalBackend => {
+  const sessionTarget = target ?? "";
+
+  const listSessions = async () => {
+    const result = await run("tmux", ["list-windows", "-t", `${sessionTarget}:`, "-F", LIST_FORMAT]);
+    if (!result.ok) {
+      logger.error(`tmux list-windows failed: ${result.error}`);
+      return [];
+    }
+    return parseTmuxWindows(result.stdout);
+  };
+
+  const windowId = async (slot: number): Promise<string | undefined> => {
+    const windows = await listSessions();
+    return windows.find((w) => w.slot === slot)?.id;
+  };
+
+  return {
+    kind: "tmux",
+
+    async focus(slot) {
+      const id = await windowId(slot);
+      if (id === undefined) {
+        logger.warn(`Slot ${slot}: no tmux window`);
+        return false;
+      }
+      const result = await run("tmux", ["select-window", "-t", id]);
+      if (!result.ok) {
+        logger.error(`Slot ${slot}: tmux select-window failed: ${result.error}`);
+        return false;
+      }
+      logger.info(`Slot ${slot}: selected tmux window ${id}`);
+      return true;
+    },
+
+    async sendText(slot, text) {
+      const id = await windowId(slot);
+      if (id === undefined) return false;
+      // -l: send literally, no key-name lookup
+      const result = await run("tmux", ["send-keys", "-t", id, "-l", text]);
+      if (!result.ok) {
+        logger.error(`Slot ${slot}: tmux send-keys failed: ${result.error}`);
+        return false;
+      }
+      return true;
+    },
+
+    listSessions,
+  };
+};
@@ -0,0 +1,56 @@
+import streamDeck from "@elgato/streamdeck";
+import type { TerminalBackend } from "./index";
+import { run } from "./exec";
+import { parseWeztermList } from "./parse";
+
+const logger = streamDeck.logger.createScope("WezTerm");
+
+/** WezTerm via `wezterm cli`. Slot N = Nth tab of the first window. */
+export const createWeztermBackend = (): TerminalBackend => {
+  const listSessions = async () => {
+    const result = await run("wezterm", ["cli", "list", "--format", "json"]);
+    if (!result.ok) {
+      logger.error(`wezterm cli list failed: ${result.error}`);
+      return [];
+    }
+    return parseWeztermList(result.stdout);
+  };
+
+  const paneId = async (slot: number): Promise<string | undefined> => {
+    const tabs = await listSessions();
+    return tabs.find((t) => t.slot === slot)?.id;
+  };
+
+  return {
+    kind: "wezterm",
+
+    async focus(slot) {
+      const id = await paneId(slot);
+      if (id === undefined) {
+        logger.warn(`Slot ${slot}: no WezTerm tab`);
+        return false;
+      }
+      // Activating a pane also activates its tab and window
+      const result = await run("wezterm", ["cli", "activate-pane", "--pane-id", id]);
+      if (!result.ok) {
+        logger.error(`Slot ${slot}: wezterm activate-pane failed: ${result.error}`);
+        return false;
+      }
+      logger.info(`Slot ${slot}: activated WezTerm pane ${id}`);
+      return true;
+    },
+
+    async sendText(slot, text) {
+      const id = await paneId(slot);
+      if (id === undefined) return false;
+      const result = await run("wezterm", ["cli", "send-text", "--pane-id", id, "--no-paste", text]);
+      if (!result.ok) {
+        logger.error(`Slot ${slot}: wezterm send-text failed: ${result.error}`);
+        return false;
+      }
+      return true;
+    },
+
+    listSessions,
+  };
+};
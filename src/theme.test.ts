@@ -0,0 +1,61 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { THEMES, parseColor, resolvePalette, setPalette, stateColor } from "./theme";
+import { STATE_COLORS, parseThemeName } from "./types";
+
+describe("parseThemeName", () => {
+  it("accepts known presets and falls back to default", () => {
+    expect(parseThemeName("deuteranopia")).toBe("deuteranopia");
+    expect(parseThemeName("custom")).toBe("custom");
+    expect(parseThemeName("neon")).toBe("default");
+    expect(parseThemeName(undefined)).toBe("default");
+  });
+});
+
+describe("parseColor", () => {
+  it("normalizes short and long hex colors to upper case", () => {
+    expect(parseColor("#ff9800")).toBe("#FF9800");
+    expect(parseColor("#0af")).toBe("#00AAFF");
+  });
+
+  it("rejects anything else", () => {
+    expect(parseColor("red")).toBeUndefined();
+    expect(parseColor("#12345")).toBeUndefined();
+    expect(parseColor(0xff9800)).toBeUndefined();
+  });
+});
+
+describe("resolvePalette", () => {
+  it("uses the default palette when no theme is set", () => {
+    expect(resolvePalette({})).toEqual(STATE_COLORS);
+  });
+
+  it("returns a preset as-is and ignores custom colors for presets", () => {
+    expect(resolvePalette({ theme: "high-contrast", themeColors: { idle: "#123456" } })).toEqual(THEMES["high-contrast"]);
+  });
+
+  it("overrides valid custom colors on top of the default palette", () => {
+    const palette = resolvePalette({ theme: "custom", themeColors: { idle: "#795548", permission: "nope" } });
+    expect(palette.idle).toBe("#795548");
+    expect(palette.permission).toBe(STATE_COLORS.permission);
+    expect(palette.thinking).toBe(STATE_COLORS.thinking);
+  });
+
+  it("keeps idle and permission distinct in every preset", () => {
+    for (const palette of Object.values(THEMES)) {
+      expect(palette.idle).not.toBe(palette.permission);
+    }
+  });
+});
+
+describe("setPalette", () => {
+  afterEach(() => {
+    setPalette(THEMES.default);
+  });
+
+  it("switches the active palette and reports whether anything changed", () => {
+    expect(setPalette(THEMES.default)).toBe(false);
+    expect(setPalette(THEMES.dark)).toBe(true);
+    expect(stateColor("thinking")).toBe(THEMES.dark.thinking);
+    expect(setPalette({ ...THEMES.dark })).toBe(false);
+  });
+});
@@ -0,0 +1,69 @@
+import type { GlobalSettings, SessionState, ThemeName } from "./types";
+import { STATE_COLORS, parseThemeName } from "./types";
+
+export type Palette = Record<SessionState, string>;
+
+export const THEMES: Record<Exclude<ThemeName, "custom">, Palette> = {
+  default: STATE_COLORS,
+  // Okabe-Ito based — no red/green or orange/amber pairs to tell apart
+  deuteranopia: {
+    idle: "#56B4E9",
+    thinking: "#0072B2",
+    permission: "#F0E442",
+    compacting: "#CC79A7",
+    done: "#009E73",
+    error: "#D55E00",
+    offline: "#000000",
+  },
+  "high-contrast": {
+    idle: "#FFFFFF",
+    thinking: "#0000FF",
+    permission: "#FFFF00",
+    compacting: "#FF00FF",
+    done: "#00FF00",
+    error: "#FF0000",
+    offline: "#000000",
+  },
+  // Muted colors for a dim desk
+  dark: {
+    idle: "#6D4C41",
+    thinking: "#0D3C6E",
+    permission: "#8D6E00",
+    compacting: "#4A148C",
+    done: "#1B5E20",
+    error: "#8E1B1B",
+    offline: "#000000",
+  },
+};
+
+/** Normalize "#rgb" / "#rrggbb" to "#RRGGBB"; undefined for anything else. */
+export const parseColor = (value: unknown): string | undefined => {
+  if (typeof value !== "string") return undefined;
+  const short = /^#([0-9a-f])([0-9a-f])([0-9a-f])$/i.exec(value);
+  if (short) return `#${short[1]}${short[1]}${short[2]}${short[2]}${short[3]}${short[3]}`.toUpperCase();
+  return /^#[0-9a-f]{6}$/i.test(value) ? value.toUpperCase() : undefined;
+};
+
+/** Palette for the theme in global settings. "custom" overrides the default palette per state. */
+export const resolvePalette = (settings: GlobalSettings): Palette => {
+  const name = parseThemeName(settings.theme);
+  if (name !== "custom") return THEMES[name];
+
+  const palette: Palette = { ...THEMES.default };
+  for (const state of Object.keys(palette) as SessionState[]) {
+    const color = parseColor(settings.themeColors?.[state]);
+    if (color) palette[state] = color;
+  }
+  return palette;
+};
+
+let active: Palette = THEMES.default;
+
+export const stateColor = (state: SessionState): string => active[state];
+
+/** Swap the active palette. Returns true if any color changed (caller redraws). */
+export const setPalette = (palette: Palette): boolean => {
+  const changed = (Object.keys(palette) as SessionState[]).some((state) => palette[state] !== active[state]);
+  active = palette;
+  return changed;
+};
@@ -0,0 +1,35 @@
+// Single shared redraw timer for elapsed-time labels.
+// Runs only while some visible action shows a timed slot; each tick callback reports whether it still needs ticks.
+
+export type TickFn = (now: number) => boolean;
+
+export const TICK_MS = 1000;
+
+const tickFns = new Set<TickFn>();
+let timer: ReturnType<typeof setInterval> | undefined;
+
+const tick = (): void => {
+  const now = Date.now();
+  let needed = false;
+  for (const fn of tickFns) {
+    // Call every fn — no short-circuit, each one redraws its own contexts
+    if (fn(now)) needed = true;
+  }
+  if (!needed) stopTicker();
+};
+
+export const registerTick = (fn: TickFn): void => {
+  tickFns.add(fn);
+};
+
+/** Start ticking if not already running (call on store updates and when actions appear). */
+export const wakeTicker = (): void => {
+  if (timer !== undefined) return;
+  timer = setInterval(tick, TICK_MS);
+};
+
+export const stopTicker = (): void => {
+  if (timer === undefined) return;
+  clearInterval(timer);
+  timer = undefined;
+};
@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import { parseTodos, progressLabel, todoProgress, TODOS_MAX } from "./todos";
+
+describe("parseTodos", () => {
+  it("keeps content, status and activeForm", () => {
+    expect(parseTodos([
+      { content: "Write tests", status: "completed", activeForm: "Writing tests", id: "1" },
+      { content: "Ship", status: "pending" },
+    ])).toEqual([
+      { content: "Write tests", status: "completed", activeForm: "Writing tests" },
+      { content: "Ship", status: "pending" },
+    ]);
+  });
+
+  it("rejects non-arrays, unknown statuses and oversized lists", () => {
+    expect(parseTodos("todo")).toBeUndefined();
+    expect(parseTodos([{ content: "x", status: "blocked" }])).toBeUndefined();
+    expect(parseTodos([{ status: "pending" }])).toBeUndefined();
+    expect(parseTodos(Array.from({ length: TODOS_MAX + 1 }, () => ({ content: "x", status: "pending" })))).toBeUndefined();
+  });
+
+  it("accepts an empty list (TodoWrite clearing the tasks)", () => {
+    expect(parseTodos([])).toEqual([]);
+  });
+});
+
+describe("todoProgress", () => {
+  it("counts completed items and picks the in-progress one", () => {
+    const progress = todoProgress([
+      { content: "A", status: "completed" },
+      { content: "B", status: "completed" },
+      { content: "C", status: "in_progress", activeForm: "Doing C" },
+      { content: "D", status: "pending" },
+    ]);
+    expect(progress).toEqual({ done: 2, total: 4, current: "Doing C" });
+    expect(progressLabel(progress)).toBe("2/4");
+  });
+
+  it("falls back to content without activeForm, and has no current item when none runs", () => {
+    expect(todoProgress([{ content: "A", status: "in_progress" }]).current).toBe("A");
+    expect(todoProgress([{ content: "A", status: "pending" }]).current).toBeUndefined();
+  });
+});
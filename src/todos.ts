@@ -0,0 +1,53 @@
+import { redact } from "./redact";
+
+// Claude's TodoWrite task list, forwarded by the hook on PreToolUse
+export type TodoStatus = "pending" | "in_progress" | "completed";
+
+export type Todo = {
+  content: string;
+  status: TodoStatus;
+  activeForm?: string;  // present-tense label shown while in progress ("Running tests")
+};
+
+export type TodoProgress = {
+  done: number;
+  total: number;
+  current?: string;  // the in-progress item (activeForm, else content)
+};
+
+export const TODOS_MAX = 100;
+export const TODO_TEXT_MAX = 500;
+
+const TODO_STATUSES = new Set<string>(["pending", "in_progress", "completed"]);
+
+const isTodo = (x: unknown): x is Todo => {
+  if (typeof x !== "object" || x === null) return false;
+  const t = x as Record<string, unknown>;
+  return (
+    typeof t.content === "string" && t.content.length <= TODO_TEXT_MAX &&
+    typeof t.status === "string" && TODO_STATUSES.has(t.status) &&
+    (t.activeForm === undefined || (typeof t.activeForm === "string" && t.activeForm.length <= TODO_TEXT_MAX))
+  );
+};
+
+/** Validate a todo list (HTTP body or state.json). Extra properties are dropped; text is redacted like detail. */
+export const parseTodos = (value: unknown): Todo[] | undefined => {
+  if (!Array.isArray(value) || value.length > TODOS_MAX || !value.every(isTodo)) return undefined;
+  return value.map(({ content, status, activeForm }) => ({
+    content: redact(content),
+    status,
+    ...(activeForm !== undefined && { activeForm: redact(activeForm) }),
+  }));
+};
+
+export const todoProgress = (todos: readonly Todo[]): TodoProgress => {
+  const active = todos.find((t) => t.status === "in_progress");
+  return {
+    done: todos.filter((t) => t.status === "completed").length,
+    total: todos.length,
+    ...(active && { current: active.activeForm || active.content }),
+  };
+};
+
+/** "3/7" */
+export const progressLabel = (progress: TodoProgress): string => `${progress.done}/${progress.total}`;
@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { commandSummary, parseToolInput, summarizeTool } from "./tools";
+
+describe("commandSummary", () => {
+  it("keeps the program and its subcommand", () => {
+    expect(commandSummary("npm test -- --watch")).toBe("npm test");
+    expect(commandSummary("git status")).toBe("git status");
+    expect(commandSummary("./scripts/deploy.sh prod")).toBe("deploy.sh prod");
+  });
+
+  it("drops flags, paths and env assignments", () => {
+    expect(commandSummary("ls -la /tmp")).toBe("ls");
+    expect(commandSummary("cat ~/.ssh/id_rsa")).toBe("cat");
+    expect(commandSummary("API_KEY=abc123 curl https://example.com")).toBe("curl");
+    expect(commandSummary("   ")).toBeUndefined();
+  });
+});
+
+describe("summarizeTool", () => {
+  it("summarizes per tool type", () => {
+    expect(summarizeTool("Bash", { command: "npm test" })).toBe("Bash: npm test");
+    expect(summarizeTool("Edit", { file_path: "/repo/src/state.ts" })).toBe("Edit: state.ts");
+    expect(summarizeTool("NotebookEdit", { notebook_path: "/repo/analysis.ipynb" })).toBe("NotebookEdit: analysis.ipynb");
+    expect(summarizeTool("WebFetch", { url: "https://docs.anthropic.com/en/docs" })).toBe("WebFetch: docs.anthropic.com");
+    expect(summarizeTool("Grep", { pattern: "TODO\n  fixme" })).toBe("Grep: TODO fixme");
+  });
+
+  it("falls back to the tool name", () => {
+    expect(summarizeTool("TodoWrite", {})).toBe("TodoWrite");
+    expect(summarizeTool("Bash")).toBe("Bash");
+    expect(summarizeTool("WebFetch", { url: "not a url" })).toBe("WebFetch");
+    expect(summarizeTool("mcp__github__create_issue", { description: "x" })).toBe("mcp__github__create_issue");
+  });
+});
+
+describe("parseToolInput", () => {
+  it("keeps only known string fields", () => {
+    expect(parseToolInput({ command: "ls", content: "file body", timeout: 5 })).toEqual({ command: "ls" });
+    expect(parseToolInput("ls")).toBeUndefined();
+    expect(parseToolInput(["ls"])).toBeUndefined();
+  });
+});
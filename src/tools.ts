@@ -0,0 +1,63 @@
+// Tool input fields the hook forwards — just what the summaries need, never file contents
+export const TOOL_INPUT_FIELDS = ["command", "file_path", "notebook_path", "path", "url", "pattern", "query", "description"] as const;
+
+export type ToolInput = Partial<Record<(typeof TOOL_INPUT_FIELDS)[number], string>>;
+
+const basename = (path: string): string => path.replace(/\/+$/, "").split("/").pop() || path;
+
+const host = (url: string): string | undefined => {
+  try {
+    return new URL(url).host || undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+// Plain word: a subcommand ("npm test", "git status") rather than a flag, path or value
+const SUBCOMMAND = /^[a-z][a-z0-9:_-]*$/;
+
+/**
+ * Program basename (leading env assignments skipped) plus its subcommand: "NODE_ENV=test npm test -- --watch"
+ * → "npm test", "./scripts/deploy.sh prod" → "deploy.sh prod". Other arguments stay off the deck.
+ */
+export const commandSummary = (command: string): string | undefined => {
+  const tokens = command.trim().split(/\s+/).filter((t) => !/^[A-Za-z_][A-Za-z0-9_]*=/.test(t));
+  const [program, next] = tokens;
+  if (!program) return undefined;
+  const name = basename(program);
+  return next !== undefined && SUBCOMMAND.test(next) ? `${name} ${next}` : name;
+};
+
+// Per-tool summary of the input; tools not listed show only their name
+const SUMMARIZERS: Record<string, (input: ToolInput) => string | undefined> = {
+  Bash: (i) => i.command && commandSummary(i.command),
+  Read: (i) => i.file_path && basename(i.file_path),
+  Edit: (i) => i.file_path && basename(i.file_path),
+  MultiEdit: (i) => i.file_path && basename(i.file_path),
+  Write: (i) => i.file_path && basename(i.file_path),
+  NotebookEdit: (i) => i.notebook_path && basename(i.notebook_path),
+  LS: (i) => i.path && basename(i.path),
+  Glob: (i) => i.pattern,
+  Grep: (i) => i.pattern,
+  WebFetch: (i) => i.url && host(i.url),
+  WebSearch: (i) => i.query,
+  Task: (i) => i.description,
+  Agent: (i) => i.description,
+};
+
+/** "Bash: npm test", "Edit: state.ts", "WebFetch: docs.anthropic.com" — or just the tool name. */
+export const summarizeTool = (tool: string, input: ToolInput = {}): string => {
+  const summary = SUMMARIZERS[tool]?.(input)?.replace(/\s+/g, " ").trim();
+  return summary ? `${tool}: ${summary}` : tool;
+};
+
+/** Pick the known string fields out of a tool_input object (HTTP body). */
+export const parseToolInput = (value: unknown): ToolInput | undefined => {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) return undefined;
+  const obj = value as Record<string, unknown>;
+  const input: ToolInput = {};
+  for (const field of TOOL_INPUT_FIELDS) {
+    if (typeof obj[field] === "string") input[field] = obj[field];
+  }
+  return input;
+};
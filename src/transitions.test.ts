@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { ALL_STATES, TRANSITIONS, evaluateTransition } from "./transitions";
+import { VALID_STATES } from "./types";
+import type { SessionState } from "./types";
+
+const from = (state: SessionState, extra: { seenAt?: number; recoverable?: boolean } = {}) => ({ state, ts: 0, ...extra });
+
+describe("TRANSITIONS", () => {
+  it("covers exactly the valid states", () => {
+    expect(new Set(ALL_STATES)).toEqual(VALID_STATES);
+  });
+
+  it("documents every rule", () => {
+    for (const rule of TRANSITIONS) {
+      expect(rule.note.length).toBeGreaterThan(0);
+      expect(rule.from.length).toBeGreaterThan(0);
+      expect(rule.to.length).toBeGreaterThan(0);
+    }
+  });
+});
+
+describe("evaluateTransition", () => {
+  it("allows anything no rule matches", () => {
+    for (const state of ALL_STATES) {
+      expect(evaluateTransition(from("idle"), state)).toMatchObject({ ok: true, state });
+    }
+  });
+
+  it("blocks done → idle and allows done → thinking / offline", () => {
+    expect(evaluateTransition(from("done"), "idle")).toMatchObject({ ok: false, reason: "done_blocks_idle" });
+    expect(evaluateTransition(from("done"), "thinking")).toMatchObject({ ok: true, state: "thinking" });
+    expect(evaluateTransition(from("done"), "offline")).toMatchObject({ ok: true, state: "offline" });
+  });
+
+  it("keeps an unseen error until a new prompt or a newer error", () => {
+    for (const state of ["idle", "thinking", "compacting", "offline"] as const) {
+      expect(evaluateTransition(from("error"), state)).toMatchObject({ ok: false, reason: "error_unacknowledged" });
+    }
+    expect(evaluateTransition(from("error"), "thinking", { prompt: "retry" })).toMatchObject({ ok: true, state: "thinking" });
+    expect(evaluateTransition(from("error"), "error")).toMatchObject({ ok: true, state: "error" });
+  });
+
+  it("lets permission and done through an unseen error", () => {
+    expect(evaluateTransition(from("error"), "permission")).toMatchObject({ ok: true, state: "permission" });
+    expect(evaluateTransition(from("error"), "done")).toMatchObject({ ok: true, state: "done" });
+  });
+
+  it("doesn't keep a tool failure, nor let one replace a sticky error", () => {
+    expect(evaluateTransition(from("error", { recoverable: true }), "thinking")).toMatchObject({ ok: true, state: "thinking" });
+    expect(evaluateTransition(from("error"), "error", { recoverable: true })).toMatchObject({ ok: false, reason: "error_unacknowledged" });
+    expect(evaluateTransition(from("error", { recoverable: true }), "error", { recoverable: true })).toMatchObject({ ok: true });
+  });
+
+  it("lets a seen error move on", () => {
+    expect(evaluateTransition(from("error", { seenAt: 1 }), "idle")).toMatchObject({ ok: true, state: "idle" });
+  });
+
+  it("rewrites offline to error when the session was mid-run", () => {
+    for (const state of ["thinking", "permission", "compacting"] as const) {
+      expect(evaluateTransition(from(state), "offline")).toMatchObject({ ok: true, state: "error" });
+    }
+    expect(evaluateTransition(from("idle"), "offline")).toMatchObject({ ok: true, state: "offline" });
+  });
+});
@@ -0,0 +1,76 @@
+import type { SessionInfo, SessionState } from "./types";
+
+// Why SessionStore.update() dropped an update
+export type RejectReason =
+  | "out_of_order"          // ts older than the slot's current ts
+  | "slot_out_of_range"     // slot beyond the configured slot count
+  | "no_slot"               // neither slot nor a session_id to buffer under
+  | "done_blocks_idle"      // idle after done (Notification idle_prompt) would hide the unread result
+  | "error_unacknowledged"; // unseen error stays until acknowledged or a new prompt arrives
+
+// Named guards keep the table data-only (no closures) so it can be listed, documented and tested
+export type TransitionGuard =
+  | "sticky"      // current slot not acknowledged (seenAt unset) and its error is not recoverable
+  | "new_prompt"  // update carries a prompt (UserPromptSubmit)
+  | "tool_error"; // update is a recoverable error (failed tool call)
+
+export type TransitionRule = {
+  from: readonly SessionState[];
+  to: readonly SessionState[];
+  when?: TransitionGuard | readonly TransitionGuard[];  // all must hold
+  note: string;
+} & (
+  | { effect: "allow" }
+  | { effect: "reject"; reason: RejectReason }
+  | { effect: "rewrite"; rewrite: SessionState }  // store this state instead
+);
+
+export const ALL_STATES: readonly SessionState[] = ["idle", "thinking", "permission", "compacting", "done", "error", "offline"];
+const ACTIVE: readonly SessionState[] = ["thinking", "permission", "compacting"];
+
+/**
+ * Transition table, checked top to bottom — the first matching rule wins; no match means allowed.
+ * Same-state updates are transitions too (thinking → thinking updates detail).
+ */
+export const TRANSITIONS: readonly TransitionRule[] = [
+  { from: ["error"], to: ["error"], when: ["sticky", "tool_error"], effect: "reject", reason: "error_unacknowledged", note: "a tool failure doesn't replace a sticky error" },
+  { from: ["error"], to: ["error"], effect: "allow", note: "a newer error replaces the message" },
+  { from: ["error"], to: ["thinking"], when: "new_prompt", effect: "allow", note: "a new prompt clears the error" },
+  // permission and done still need the user — hiding them behind the error would stall the session unseen
+  { from: ["error"], to: ["idle", "thinking", "compacting", "offline"], when: "sticky", effect: "reject", reason: "error_unacknowledged", note: "error is sticky until acknowledged" },
+  { from: ["done"], to: ["idle"], effect: "reject", reason: "done_blocks_idle", note: "done stays until thinking, offline or error" },
+  { from: ACTIVE, to: ["offline"], effect: "rewrite", rewrite: "error", note: "session ended mid-run" },
+];
+
+export type TransitionResult =
+  | { ok: true; state: SessionState; rule?: TransitionRule }
+  | { ok: false; reason: RejectReason; rule: TransitionRule };
+
+type GuardInput = { prompt?: string; recoverable?: boolean };
+
+const guardHolds = (guard: TransitionGuard, current: SessionInfo, update: GuardInput): boolean => {
+  switch (guard) {
+    case "sticky":
+      return current.seenAt === undefined && current.recoverable !== true;
+    case "new_prompt":
+      return update.prompt !== undefined;
+    case "tool_error":
+      return update.recoverable === true;
+  }
+};
+
+const guardsHold = (when: TransitionRule["when"], current: SessionInfo, update: GuardInput): boolean =>
+  when === undefined || (typeof when === "string" ? [when] : when).every((guard) => guardHolds(guard, current, update));
+
+/** Apply TRANSITIONS to an update of `current` to `next`. */
+export const evaluateTransition = (
+  current: SessionInfo,
+  next: SessionState,
+  update: GuardInput = {},
+): TransitionResult => {
+  const rule = TRANSITIONS.find((r) =>
+    r.from.includes(current.state) && r.to.includes(next) && guardsHold(r.when, current, update));
+  if (!rule || rule.effect === "allow") return { ok: true, state: next, rule };
+  if (rule.effect === "rewrite") return { ok: true, state: rule.rewrite, rule };
+  return { ok: false, reason: rule.reason, rule };
+};
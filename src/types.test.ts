@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { parseSlot, isSessionState, isValidSessionId } from "./types";
+import { parseSlot, parseSlotCount, bankCount, bankSlot, isSessionState, isValidSessionId, parseStaleTimeouts, DEFAULT_STALE_TIMEOUTS } from "./types";
 
 describe("parseSlot", () => {
   it("returns valid slot numbers as-is", () => {
@@ -27,6 +27,45 @@ describe("parseSlot", () => {
   it("defaults to 1 for floats", () => {
     expect(parseSlot(1.5)).toBe(1);
   });
+
+  it("accepts slots up to a given slot count", () => {
+    expect(parseSlot(12, 16)).toBe(12);
+    expect(parseSlot(17, 16)).toBe(1);
+  });
+});
+
+describe("parseSlotCount", () => {
+  it("accepts 1..32", () => {
+    expect(parseSlotCount(16)).toBe(16);
+    expect(parseSlotCount("12")).toBe(12);
+    expect(parseSlotCount(32)).toBe(32);
+  });
+
+  it("defaults to 8 for invalid values", () => {
+    expect(parseSlotCount(0)).toBe(8);
+    expect(parseSlotCount(33)).toBe(8);
+    expect(parseSlotCount(undefined)).toBe(8);
+  });
+});
+
+describe("banks", () => {
+  it("counts banks of 8", () => {
+    expect(bankCount(8)).toBe(1);
+    expect(bankCount(12)).toBe(2);
+    expect(bankCount(16)).toBe(2);
+  });
+
+  it("offsets key slots by the active bank", () => {
+    expect(bankSlot(1, 0, 16)).toBe(1);
+    expect(bankSlot(1, 1, 16)).toBe(9);
+    expect(bankSlot(8, 1, 16)).toBe(16);
+  });
+
+  it("leaves keys past the slot count unused on a partial last bank", () => {
+    expect(bankSlot(4, 1, 12)).toBe(12);
+    expect(bankSlot(5, 1, 12)).toBeUndefined();
+    expect(bankSlot(8, 1, 12)).toBeUndefined();
+  });
 });
 
 describe("isSessionState", () => {
@@ -67,3 +106,20 @@ describe("isValidSessionId", () => {
     expect(isValidSessionId(undefined)).toBe(false);
   });
 });
+
+describe("parseStaleTimeouts", () => {
+  it("uses the defaults when unset", () => {
+    expect(parseStaleTimeouts(undefined)).toEqual(DEFAULT_STALE_TIMEOUTS);
+  });
+
+  it("converts minutes (numbers or strings from the Property Inspector) to ms", () => {
+    expect(parseStaleTimeouts({ thinking: "5", compacting: 2 })).toMatchObject({ thinking: 300_000, compacting: 120_000 });
+  });
+
+  it("disables a state with 0 and ignores invalid values", () => {
+    const timeouts = parseStaleTimeouts({ permission: 0, thinking: "soon", compacting: -1 });
+    expect(timeouts.permission).toBeUndefined();
+    expect(timeouts.thinking).toBe(DEFAULT_STALE_TIMEOUTS.thinking);
+    expect(timeouts.compacting).toBe(DEFAULT_STALE_TIMEOUTS.compacting);
+  });
+});
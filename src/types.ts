@@ -1,3 +1,7 @@
+import type { SessionUsage } from "./usage";
+import type { Todo } from "./todos";
+import type { Subagent, SubagentEvent } from "./subagents";
+
 export type SessionState =
   | "idle"
   | "thinking"
@@ -10,29 +14,92 @@ export type SessionState =
 export type SessionInfo = {
   state: SessionState;
   ts: number;
+  since?: number;  // when the current state was entered (ts of the first update in this state)
   project?: string;
   detail?: string;
   prompt?: string;
+  // Claude Code's own conversation context (hook stdin), carried forward like project
+  claudeSessionId?: string;
+  transcriptPath?: string;
+  model?: string;
+  permissionMode?: string;
+  usage?: SessionUsage;  // token/cost totals tail-parsed from transcriptPath
+  todos?: Todo[];        // latest TodoWrite list of the conversation
+  subagents?: Subagent[];  // Task subagents running while the session is active
+  stale?: boolean;  // set by the watchdog: no update for longer than the state's stale timeout
+  seenAt?: number;  // acknowledged from the deck (key/dial press) — rendered dimmed, no longer needs attention
+  recoverable?: boolean;  // error from a failed tool call — Claude usually carries on, so it isn't sticky
 };
 
 export type StateUpdate = {
-  slot?: number;           // 1..8 — explicit slot (highest priority)
+  slot?: number;           // 1..slotCount — explicit slot (highest priority)
   session_id?: string;     // iTerm2 session UUID → resolved via daemon mapping
-  fallback_slot?: number;  // 1..8 — used only when session_id can't be resolved
+  fallback_slot?: number;  // 1..slotCount — used only when session_id can't be resolved
   state: SessionState;
   ts?: number;
   project?: string;
   detail?: string;
   prompt?: string;
+  claude_session_id?: string;  // Claude's conversation id — distinct from the iTerm2 session_id above
+  transcript_path?: string;
+  model?: string;
+  permission_mode?: string;
+  todos?: Todo[];  // TodoWrite tool input (PreToolUse) — replaces the whole list
+  agent_id?: string;         // the update comes from a subagent (its tool activity, SubagentStart/Stop)
+  subagent?: SubagentEvent;  // subagent started (Task call, SubagentStart) or stopped (SubagentStop)
+  recoverable?: boolean;     // error state from a failed tool call (PostToolUse / PostToolUseFailure)
+};
+
+// Where a terminal session (pane) lives, as reported by the iTerm2 daemon
+export type SessionLocation = {
+  window_id: string;   // iTerm2 window id
+  tab_index: number;   // 0-based tab position within its window
+  tab_title?: string;
+  pane_id?: string;    // pane position as in ITERM_SESSION_ID ("w0t1p0")
 };
 
-// Mapping sent by iTerm2 Python daemon: session UUID → slot position
-export type SessionMapping = Record<string, number>;
+// Mapping sent by iTerm2 Python daemon: session UUID → its location (the plugin assigns slots across
+// windows), or a slot position (daemons before multi-window support, current window only)
+export type SessionMapping = Record<string, SessionLocation | number>;
+
+// Resolved session UUID → slot (GET /events `mapping`)
+export type SlotMapping = Record<string, number>;
+
+// A slot's session and where it lives — lets the iTerm2 backend focus the right window and tab
+export type LocatedSession = SessionLocation & { session_id: string };
 
 export type ActionSettings = {
   slot: number;
+  showTimer?: boolean;  // elapsed time in thinking/permission/compacting (default: shown)
+  showUsage?: boolean;  // token/cost readout from the transcript (default: shown)
+  role?: KeyRole;  // keys only — "bank" turns the key into a bank pager
+  project?: string;  // keys with role "pinned" — project path or glob (`~/work/*`) the key follows
+};
+
+// "slot": show a session slot (offset by the active bank). "bank": press to page to the next bank.
+// "pinned": show the session whose project matches `project`, whichever tab it is in.
+export type KeyRole = "slot" | "bank" | "pinned";
+
+export type TerminalKind = "iterm" | "tmux" | "kitty" | "wezterm";
+
+// Built-in color presets, plus "custom" = default palette with per-state overrides from `themeColors`
+export type ThemeName = "default" | "deuteranopia" | "high-contrast" | "dark" | "custom";
+
+// Plugin-wide settings, edited from any action's Property Inspector
+export type GlobalSettings = {
+  slotCount?: number;
+  terminal?: TerminalKind;
+  terminalTarget?: string;  // tmux session name / kitty listen_on socket
+  stateReadRequiresToken?: boolean;  // GET /state needs the API token too (default: open read-only)
+  theme?: ThemeName;
+  themeColors?: Partial<Record<SessionState, string>>;  // #RRGGBB per state, used by the "custom" theme
+  staleTimeouts?: Partial<Record<SessionState, number | string>>;  // minutes per state, 0 = never stale
+  redactPatterns?: string;  // extra secret patterns, one regular expression per line
 };
 
+// Stale-session watchdog: ms without an update before a slot in this state is flagged stale
+export type StaleTimeouts = Partial<Record<SessionState, number>>;
+
 export const STATE_COLORS: Record<SessionState, string> = {
   idle: "#FF9800",
   thinking: "#2196F3",
@@ -56,19 +123,78 @@ export const STATE_LABELS: Record<SessionState, string> = {
 export const VALID_STATES = new Set<string>(Object.keys(STATE_COLORS));
 
 export const MIN_SLOT = 1;
-export const MAX_SLOT = 8;
+export const DEFAULT_SLOT_COUNT = 8;
+// Protocol limit — hook, daemon and HTTP validation accept slots up to this; the store ignores slots beyond its slot count
+export const MAX_SLOT_COUNT = 32;
+// Keys page through slots in banks of this size (one Stream Deck MK.2 / Plus keypad)
+export const BANK_SIZE = 8;
 
 export const HTTP_HOST = "127.0.0.1";
 export const HTTP_PORT = 51820;
 export const MAX_BODY_SIZE = 65536;
 
-export const parseSlot = (value: unknown): number => {
+export const parseSlot = (value: unknown, slotCount: number = DEFAULT_SLOT_COUNT): number => {
+  const n = Number(value);
+  return Number.isInteger(n) && n >= MIN_SLOT && n <= slotCount ? n : 1;
+};
+
+export const parseSlotCount = (value: unknown): number => {
   const n = Number(value);
-  return Number.isInteger(n) && n >= MIN_SLOT && n <= MAX_SLOT ? n : 1;
+  return Number.isInteger(n) && n >= MIN_SLOT && n <= MAX_SLOT_COUNT ? n : DEFAULT_SLOT_COUNT;
+};
+
+export const DEFAULT_STALE_TIMEOUTS: StaleTimeouts = {
+  thinking: 15 * 60_000,
+  compacting: 10 * 60_000,
+  permission: 60 * 60_000,
+};
+
+/** Minutes from global settings → ms per state. Missing or invalid values keep the default; 0 disables. */
+export const parseStaleTimeouts = (value: unknown): StaleTimeouts => {
+  const result: StaleTimeouts = { ...DEFAULT_STALE_TIMEOUTS };
+  if (typeof value !== "object" || value === null) return result;
+  for (const state of Object.keys(DEFAULT_STALE_TIMEOUTS) as SessionState[]) {
+    const raw = (value as Record<string, unknown>)[state];
+    if (raw === undefined || raw === "") continue;
+    const minutes = Number(raw);
+    if (!Number.isFinite(minutes) || minutes < 0) continue;
+    if (minutes === 0) delete result[state];
+    else result[state] = minutes * 60_000;
+  }
+  return result;
+};
+
+export const bankCount = (slotCount: number): number => Math.max(1, Math.ceil(slotCount / BANK_SIZE));
+
+/**
+ * Slot shown by a key configured for `slot` while `bank` (0-based) is active. Undefined past slotCount
+ * (keys beyond a partial last bank stay unused rather than repeating bank 1).
+ */
+export const bankSlot = (slot: number, bank: number, slotCount: number): number | undefined => {
+  const shown = slot + bank * BANK_SIZE;
+  return shown <= slotCount ? shown : undefined;
 };
 
 export const isSessionState = (x: unknown): x is SessionState =>
   typeof x === "string" && VALID_STATES.has(x);
 
+export const TERMINAL_KINDS: readonly TerminalKind[] = ["iterm", "tmux", "kitty", "wezterm"];
+
+export const parseTerminalKind = (value: unknown): TerminalKind =>
+  TERMINAL_KINDS.includes(value as TerminalKind) ? (value as TerminalKind) : "iterm";
+
+export const THEME_NAMES: readonly ThemeName[] = ["default", "deuteranopia", "high-contrast", "dark", "custom"];
+
+export const parseThemeName = (value: unknown): ThemeName =>
+  THEME_NAMES.includes(value as ThemeName) ? (value as ThemeName) : "default";
+
 export const isValidSessionId = (x: unknown): x is string =>
   typeof x === "string" && x.length > 0 && x.length <= 64;
+
+/** Shape check for a SessionLocation read back from state.json (validated at HTTP ingress when received). */
+export const isSessionLocation = (x: unknown): x is SessionLocation => {
+  if (typeof x !== "object" || x === null) return false;
+  const l = x as Record<string, unknown>;
+  return typeof l.window_id === "string" && typeof l.tab_index === "number" &&
+    (l.tab_title === undefined || typeof l.tab_title === "string") && (l.pane_id === undefined || typeof l.pane_id === "string");
+};
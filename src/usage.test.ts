@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync, appendFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import {
+  UsageTracker, estimateCost, formatCost, formatTokens, isSessionUsage, parseUsageLine, totalUsage, usageLabel,
+} from "./usage";
+
+const line = (id: string, model: string, usage: Record<string, number>): string =>
+  JSON.stringify({ type: "assistant", message: { id, model, usage } }) + "\n";
+
+describe("parseUsageLine", () => {
+  it("reads tokens and prices an assistant message", () => {
+    const record = parseUsageLine(line("msg_1", "claude-sonnet-4-5", {
+      input_tokens: 1000, output_tokens: 2000, cache_creation_input_tokens: 4000, cache_read_input_tokens: 10000,
+    }));
+    expect(record).toMatchObject({ id: "msg_1", model: "claude-sonnet-4-5" });
+    expect(record?.usage).toMatchObject({ input: 1000, output: 2000, cacheWrite: 4000, cacheRead: 10000 });
+    // 1000×3 + 4000×3.75 + 10000×0.3 + 2000×15 per million
+    expect(record?.usage.cost).toBeCloseTo(0.051);
+  });
+
+  it("ignores lines without usage and invalid JSON", () => {
+    expect(parseUsageLine(JSON.stringify({ type: "user", message: { content: "hi" } }))).toBeUndefined();
+    expect(parseUsageLine("{not json")).toBeUndefined();
+  });
+});
+
+describe("estimateCost", () => {
+  it("uses the first matching price and 0 for unknown models", () => {
+    const tokens = { input: 1_000_000, output: 0, cacheWrite: 0, cacheRead: 0 };
+    expect(estimateCost("claude-opus-4-5-20251101", tokens)).toBe(5);
+    expect(estimateCost("claude-opus-4-1", tokens)).toBe(15);
+    expect(estimateCost("claude-haiku-4-5", tokens)).toBe(1);
+    expect(estimateCost("gpt-something", tokens)).toBe(0);
+  });
+});
+
+describe("formatting", () => {
+  it("formats tokens and cost compactly", () => {
+    expect(formatTokens(950)).toBe("950");
+    expect(formatTokens(12_345)).toBe("12k");
+    expect(formatTokens(1_234)).toBe("1.2k");
+    expect(formatTokens(4_500_000)).toBe("4.5M");
+    expect(formatCost(0.4213)).toBe("$0.42");
+    expect(formatCost(123.4)).toBe("$123");
+  });
+
+  it("counts cache tokens as input in the label", () => {
+    expect(usageLabel({ input: 100, cacheWrite: 400, cacheRead: 500, output: 48_000, cost: 1.234 })).toBe("1.0k in · 48k out · $1.23");
+  });
+});
+
+describe("UsageTracker", () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "usage-test-"));
+    path = join(dir, "transcript.jsonl");
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("resolves undefined for a missing transcript", async () => {
+    expect(await new UsageTracker().poll(path)).toBeUndefined();
+  });
+
+  it("reads only appended lines and keeps running totals per model", async () => {
+    const tracker = new UsageTracker();
+    writeFileSync(path, line("a", "claude-sonnet-4-5", { input_tokens: 10, output_tokens: 5 }));
+    expect(await tracker.poll(path)).toMatchObject({ input: 10, output: 5 });
+    expect(await tracker.poll(path)).toBeUndefined();
+
+    appendFileSync(path, line("b", "claude-haiku-4-5", { input_tokens: 1, output_tokens: 2 }));
+    const usage = await tracker.poll(path);
+    expect(usage).toMatchObject({ input: 11, output: 7 });
+    expect(Object.keys(usage?.models ?? {})).toEqual(["claude-sonnet-4-5", "claude-haiku-4-5"]);
+    expect(isSessionUsage(usage)).toBe(true);
+  });
+
+  it("waits for the rest of a line written in two parts", async () => {
+    const tracker = new UsageTracker();
+    const full = line("a", "claude-sonnet-4-5", { input_tokens: 10, output_tokens: 5 });
+    writeFileSync(path, full.slice(0, 20));
+    expect(await tracker.poll(path)).toBeUndefined();
+    appendFileSync(path, full.slice(20));
+    expect(await tracker.poll(path)).toMatchObject({ input: 10, output: 5 });
+  });
+
+  it("counts a message split over several lines once", async () => {
+    const tracker = new UsageTracker();
+    writeFileSync(path,
+      line("a", "claude-sonnet-4-5", { input_tokens: 10, output_tokens: 1 }) +
+      line("a", "claude-sonnet-4-5", { input_tokens: 10, output_tokens: 8 }));
+    const usage = await tracker.poll(path);
+    expect(usage).toMatchObject({ input: 10, output: 8 });
+    expect(usage?.models["claude-sonnet-4-5"]).toMatchObject({ input: 10, output: 8 });
+  });
+
+  it("recounts a transcript that shrank", async () => {
+    const tracker = new UsageTracker();
+    writeFileSync(path, line("a", "m", { input_tokens: 10 }) + line("b", "m", { input_tokens: 20 }));
+    await tracker.poll(path);
+    writeFileSync(path, line("c", "m", { input_tokens: 3 }));
+    expect(await tracker.poll(path)).toMatchObject({ input: 3 });
+  });
+
+  it("aggregates transcripts by project", async () => {
+    const tracker = new UsageTracker();
+    const other = join(dir, "other.jsonl");
+    const third = join(dir, "third.jsonl");
+    writeFileSync(path, line("a", "m", { input_tokens: 10 }));
+    writeFileSync(other, line("b", "m", { input_tokens: 20 }));
+    writeFileSync(third, line("c", "m", { input_tokens: 5 }));
+    await Promise.all([tracker.poll(path, "/repo"), tracker.poll(other, "/repo"), tracker.poll(third)]);
+
+    const projects = tracker.byProject();
+    expect(projects["/repo"]).toMatchObject({ input: 30, transcripts: 2 });
+    expect(projects[""]).toMatchObject({ input: 5, transcripts: 1 });
+    expect(totalUsage(Object.values(projects))).toMatchObject({ input: 35, models: { m: { input: 35 } } });
+  });
+});
@@ -0,0 +1,250 @@
+import { open, stat } from "node:fs/promises";
+
+export type TokenUsage = {
+  input: number;
+  output: number;
+  cacheWrite: number;  // cache_creation_input_tokens
+  cacheRead: number;   // cache_read_input_tokens
+  cost: number;        // estimated USD (0 for models without a known price)
+};
+
+export type SessionUsage = TokenUsage & {
+  models: Record<string, TokenUsage>;  // per model id, as named in the transcript
+};
+
+// Usage aggregated over the transcripts of one project (GET /usage)
+export type ProjectUsage = SessionUsage & { transcripts: number };
+
+// USD per million input/output tokens, first match wins. Cache writes cost 1.25× input, cache reads 0.1× input.
+export const MODEL_PRICES: readonly { match: RegExp; input: number; output: number }[] = [
+  { match: /opus-4-[5-9]/, input: 5, output: 25 },
+  { match: /opus/, input: 15, output: 75 },
+  { match: /sonnet/, input: 3, output: 15 },
+  { match: /haiku-4/, input: 1, output: 5 },
+  { match: /haiku-3-5/, input: 0.8, output: 4 },
+  { match: /haiku/, input: 0.25, output: 1.25 },
+];
+
+// Bytes read per chunk while catching up on a transcript
+const READ_CHUNK = 1 << 20;
+// Transcripts tracked at once (least recently polled evicted first)
+const TRACKED_MAX = 256;
+
+export const emptyUsage = (): TokenUsage => ({ input: 0, output: 0, cacheWrite: 0, cacheRead: 0, cost: 0 });
+
+export const estimateCost = (model: string, usage: Omit<TokenUsage, "cost">): number => {
+  const price = MODEL_PRICES.find((p) => p.match.test(model));
+  if (!price) return 0;
+  return (
+    usage.input * price.input +
+    usage.cacheWrite * price.input * 1.25 +
+    usage.cacheRead * price.input * 0.1 +
+    usage.output * price.output
+  ) / 1_000_000;
+};
+
+// Add (sign 1) or remove (sign -1) `delta` into `target`
+const accumulate = (target: TokenUsage, delta: TokenUsage, sign: 1 | -1 = 1): void => {
+  target.input += sign * delta.input;
+  target.output += sign * delta.output;
+  target.cacheWrite += sign * delta.cacheWrite;
+  target.cacheRead += sign * delta.cacheRead;
+  target.cost += sign * delta.cost;
+};
+
+// Add `source` totals and per-model totals into `target`
+const merge = (target: SessionUsage, source: SessionUsage): void => {
+  accumulate(target, source);
+  for (const [model, usage] of Object.entries(source.models)) {
+    target.models[model] ??= emptyUsage();
+    accumulate(target.models[model], usage);
+  }
+};
+
+/** Sum of several sessions' usage, per model too. */
+export const totalUsage = (list: Iterable<SessionUsage>): SessionUsage => {
+  const total: SessionUsage = { ...emptyUsage(), models: {} };
+  for (const usage of list) merge(total, usage);
+  return total;
+};
+
+const count = (x: unknown): number => (typeof x === "number" && Number.isFinite(x) && x > 0 ? x : 0);
+
+export type UsageRecord = { id?: string; model: string; usage: TokenUsage };
+
+/** Usage of one transcript line — an assistant message with `message.usage` — or undefined for anything else. */
+export const parseUsageLine = (line: string): UsageRecord | undefined => {
+  let entry: unknown;
+  try {
+    entry = JSON.parse(line);
+  } catch {
+    return undefined;
+  }
+  if (typeof entry !== "object" || entry === null) return undefined;
+  const message = (entry as Record<string, unknown>).message;
+  if (typeof message !== "object" || message === null) return undefined;
+  const m = message as Record<string, unknown>;
+  if (typeof m.usage !== "object" || m.usage === null) return undefined;
+  const u = m.usage as Record<string, unknown>;
+  const model = typeof m.model === "string" ? m.model : "unknown";
+  const tokens = {
+    input: count(u.input_tokens),
+    output: count(u.output_tokens),
+    cacheWrite: count(u.cache_creation_input_tokens),
+    cacheRead: count(u.cache_read_input_tokens),
+  };
+  return {
+    ...(typeof m.id === "string" && { id: m.id }),
+    model,
+    usage: { ...tokens, cost: estimateCost(model, tokens) },
+  };
+};
+
+const isTokenUsage = (x: unknown): x is TokenUsage => {
+  if (typeof x !== "object" || x === null) return false;
+  const u = x as Record<string, unknown>;
+  return ["input", "output", "cacheWrite", "cacheRead", "cost"].every((k) => typeof u[k] === "number");
+};
+
+export const isSessionUsage = (x: unknown): x is SessionUsage =>
+  isTokenUsage(x) &&
+  typeof (x as SessionUsage).models === "object" && (x as SessionUsage).models !== null &&
+  Object.values((x as SessionUsage).models).every(isTokenUsage);
+
+/** 950, 12.3k, 4.5M */
+export const formatTokens = (n: number): string => {
+  if (n < 1000) return String(Math.round(n));
+  if (n < 1_000_000) return `${(n / 1000).toFixed(n < 10_000 ? 1 : 0)}k`;
+  return `${(n / 1_000_000).toFixed(n < 10_000_000 ? 1 : 0)}M`;
+};
+
+/** $0.42, $12.30, $123 */
+export const formatCost = (cost: number): string => `$${cost < 100 ? cost.toFixed(2) : Math.round(cost)}`;
+
+/** "1.2M in · 48k out · $1.23" — input counts cache writes and reads (everything sent to the model). */
+export const usageLabel = (usage: TokenUsage): string =>
+  `${formatTokens(usage.input + usage.cacheWrite + usage.cacheRead)} in · ${formatTokens(usage.output)} out · ${formatCost(usage.cost)}`;
+
+type Transcript = {
+  offset: number;        // bytes consumed
+  partial: Buffer;       // trailing bytes of an unfinished line
+  last?: UsageRecord;    // last counted message — repeated lines of the same message replace it
+  usage: SessionUsage;
+  project?: string;
+  tail: Promise<SessionUsage | undefined>;  // serializes polls of the same file
+};
+
+const newTranscript = (project: string | undefined): Transcript => ({
+  offset: 0,
+  partial: Buffer.alloc(0),
+  usage: { ...emptyUsage(), models: {} },
+  project,
+  tail: Promise.resolve(undefined),
+});
+
+/**
+ * Running token/cost totals per transcript JSONL, read incrementally: each poll reads only the bytes
+ * appended since the last one. A file that shrank (rewritten) is re-read from the start.
+ */
+export class UsageTracker {
+  // Map insertion order = recency (re-inserted on every poll)
+  private readonly transcripts = new Map<string, Transcript>();
+
+  /** Read new lines of `path`. Resolves to the updated totals, or undefined when nothing changed. */
+  poll(path: string, project?: string): Promise<SessionUsage | undefined> {
+    const t = this.transcripts.get(path) ?? newTranscript(project);
+    if (project !== undefined) t.project = project;
+    this.transcripts.delete(path);
+    this.transcripts.set(path, t);
+    if (this.transcripts.size > TRACKED_MAX) {
+      const oldest = this.transcripts.keys().next().value;
+      if (oldest !== undefined) this.transcripts.delete(oldest);
+    }
+    t.tail = t.tail.then(() => this.read(path, t));
+    return t.tail;
+  }
+
+  get(path: string): SessionUsage | undefined {
+    return this.transcripts.get(path)?.usage;
+  }
+
+  /** Totals per project over every tracked transcript ("" = unknown project). */
+  byProject(): Record<string, ProjectUsage> {
+    const result: Record<string, ProjectUsage> = {};
+    for (const t of this.transcripts.values()) {
+      const key = t.project ?? "";
+      const entry = result[key] ?? { ...emptyUsage(), models: {}, transcripts: 0 };
+      merge(entry, t.usage);
+      entry.transcripts++;
+      result[key] = entry;
+    }
+    return result;
+  }
+
+  private async read(path: string, t: Transcript): Promise<SessionUsage | undefined> {
+    let size: number;
+    try {
+      size = (await stat(path)).size;
+    } catch {
+      return undefined;  // not written yet, or gone
+    }
+    if (size === t.offset) return undefined;
+
+    let changed = false;
+    if (size < t.offset) {
+      // Rewritten from scratch — recount
+      t.offset = 0;
+      t.partial = Buffer.alloc(0);
+      t.last = undefined;
+      t.usage = { ...emptyUsage(), models: {} };
+      changed = true;
+    }
+    try {
+      const file = await open(path, "r");
+      try {
+        const buffer = Buffer.alloc(Math.min(READ_CHUNK, size - t.offset));
+        while (t.offset < size) {
+          const { bytesRead } = await file.read(buffer, 0, Math.min(buffer.length, size - t.offset), t.offset);
+          if (bytesRead === 0) break;
+          t.offset += bytesRead;
+          changed = this.consume(t, buffer.subarray(0, bytesRead)) || changed;
+        }
+      } finally {
+        await file.close();
+      }
+    } catch {
+      // Unreadable — keep what was counted so far
+    }
+    return changed ? t.usage : undefined;
+  }
+
+  // Split complete lines out of `chunk` (plus the leftover partial line) and count their usage
+  private consume(t: Transcript, chunk: Buffer): boolean {
+    const data = t.partial.length > 0 ? Buffer.concat([t.partial, chunk]) : chunk;
+    let changed = false;
+    let start = 0;
+    for (let nl = data.indexOf(0x0a); nl !== -1; nl = data.indexOf(0x0a, start)) {
+      const record = parseUsageLine(data.toString("utf8", start, nl));
+      start = nl + 1;
+      if (!record) continue;
+      this.count(t, record);
+      changed = true;
+    }
+    // Copy — `chunk` is a view into a reused read buffer
+    t.partial = Buffer.from(data.subarray(start));
+    return changed;
+  }
+
+  private count(t: Transcript, record: UsageRecord): void {
+    const models = t.usage.models;
+    // One message spans several lines (one per content block), each repeating the usage — count it once
+    if (record.id !== undefined && t.last?.id === record.id) {
+      accumulate(t.usage, t.last.usage, -1);
+      accumulate(models[t.last.model], t.last.usage, -1);
+    }
+    accumulate(t.usage, record.usage);
+    models[record.model] ??= emptyUsage();
+    accumulate(models[record.model], record.usage);
+    t.last = record;
+  }
+}
@@ -0,0 +1,26 @@
+import { describe, it, expect } from "vitest";
+import { assignSlots } from "./windows";
+
+const at = (window_id: string, tab_index: number) => ({ window_id, tab_index });
+
+describe("assignSlots", () => {
+  it("numbers the tabs of each window after the windows before it", () => {
+    const { slots, windowOrder } = assignSlots(
+      { a: at("w1", 0), b: at("w1", 2), c: at("w2", 0), d: at("w2", 1), "a-split": at("w1", 0) },
+      [],
+    );
+    expect(slots).toEqual({ a: 1, b: 3, c: 4, d: 5, "a-split": 1 });
+    expect(windowOrder).toEqual(["w1", "w2"]);
+  });
+
+  it("keeps the first-seen window order regardless of the order reported", () => {
+    const { slots } = assignSlots({ c: at("w2", 0), a: at("w1", 0) }, ["w1", "w2"]);
+    expect(slots).toEqual({ a: 1, c: 2 });
+  });
+
+  it("drops closed windows and appends new ones", () => {
+    const { slots, windowOrder } = assignSlots({ c: at("w2", 0), e: at("w3", 0) }, ["w1", "w2"]);
+    expect(slots).toEqual({ c: 1, e: 2 });
+    expect(windowOrder).toEqual(["w2", "w3"]);
+  });
+});
@@ -0,0 +1,36 @@
+import type { SessionLocation } from "./types";
+
+/**
+ * Slot per session across iTerm2 windows. Windows keep the order they were first seen in (focus changes
+ * and window z-order don't reshuffle slots); new windows go last. Each window's tabs are numbered
+ * consecutively after the tabs of the windows before it, in tab order: two windows with 3 and 2 tabs
+ * take slots 1-3 and 4-5. Every pane of a tab gets the tab's slot.
+ * Returns the slots and the window order to keep for the next mapping (windows that are gone dropped).
+ */
+export const assignSlots = (
+  locations: Record<string, SessionLocation>,
+  windowOrder: readonly string[],
+): { slots: Record<string, number>; windowOrder: string[] } => {
+  // Tab count per window = highest reported tab index + 1
+  const tabCounts = new Map<string, number>();
+  for (const { window_id: windowId, tab_index: tabIndex } of Object.values(locations)) {
+    tabCounts.set(windowId, Math.max(tabCounts.get(windowId) ?? 0, tabIndex + 1));
+  }
+
+  const order = [
+    ...windowOrder.filter((windowId) => tabCounts.has(windowId)),
+    ...[...tabCounts.keys()].filter((windowId) => !windowOrder.includes(windowId)),
+  ];
+  const offsets = new Map<string, number>();
+  let offset = 0;
+  for (const windowId of order) {
+    offsets.set(windowId, offset);
+    offset += tabCounts.get(windowId)!;
+  }
+
+  const slots: Record<string, number> = {};
+  for (const [sessionId, { window_id: windowId, tab_index: tabIndex }] of Object.entries(locations)) {
+    slots[sessionId] = offsets.get(windowId)! + tabIndex + 1;
+  }
+  return { slots, windowOrder: order };
+};